@@ -0,0 +1,60 @@
+'use client'
+
+import { ArrowLeft, Shield } from 'lucide-react'
+import Link from 'next/link'
+import { useAccount } from 'wagmi'
+import { useContractRead } from '@/hooks/useContract'
+import { useGameConfigParameters, useParameterHistory } from '@/hooks/useGameConfigAdmin'
+import ConfigEditor from '@/components/admin/ConfigEditor'
+import ParameterHistory from '@/components/admin/ParameterHistory'
+
+export default function ConfigAdminPage() {
+  const { address } = useAccount()
+  // Every GameConfig setter is onlyAdmin, which also lets the owner through
+  const { data: isAdmin, isLoading: isLoadingAdmin } = useContractRead(
+    'GameConfig',
+    'hasAdminRole',
+    [address as `0x${string}`],
+    { enabled: !!address }
+  )
+
+  const { current, isPaused, pauseReason, refetch } = useGameConfigParameters()
+  const { history, isLoading: isLoadingHistory, error: historyError } = useParameterHistory()
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center space-x-4">
+            <Link href="/admin" className="flex items-center space-x-2 text-foreground hover:text-primary transition-colors">
+              <ArrowLeft className="h-5 w-5" />
+              <span>Admin</span>
+            </Link>
+            <div className="h-6 w-px bg-border"></div>
+            <h1 className="text-2xl font-bold text-foreground">Game Config</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        {!isAdmin ? (
+          <div className="max-w-4xl mx-auto bg-card border border-border rounded-lg p-8 text-center">
+            <Shield className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-card-foreground mb-2">
+              {isLoadingAdmin ? 'Checking access...' : 'Access Denied'}
+            </h2>
+            <p className="text-card-foreground/70">
+              Only GameConfig admins and its owner can change game parameters.
+            </p>
+          </div>
+        ) : (
+          <>
+            <ConfigEditor current={current} isPaused={isPaused} pauseReason={pauseReason} onSubmitted={refetch} />
+            <ParameterHistory history={history} isLoading={isLoadingHistory} error={historyError} />
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
\ No newline at end of file
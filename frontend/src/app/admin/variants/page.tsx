@@ -0,0 +1,64 @@
+'use client'
+
+import { ArrowLeft, Shield } from 'lucide-react'
+import Link from 'next/link'
+import { useAccount } from 'wagmi'
+import { useContractRead } from '@/hooks/useContract'
+import { useActionTemplates, useVariants } from '@/hooks/useContentAdmin'
+import ActionTemplateEditor from '@/components/admin/ActionTemplateEditor'
+import TemplateAssignments from '@/components/admin/TemplateAssignments'
+import VariantPanel from '@/components/admin/VariantPanel'
+
+export default function VariantAdminPage() {
+  const { address } = useAccount()
+  // Templates and assignments are onlyOwner on ActionNFTManager
+  const { data: owner, isLoading: isLoadingOwner } = useContractRead('ActionNFTManager', 'owner', [])
+  const isOwner = !!address && !!owner && (owner as string).toLowerCase() === address.toLowerCase()
+
+  const { templates, isLoading: isLoadingTemplates, refetch: refetchTemplates } = useActionTemplates()
+  const { shipVariants, actionVariants, activeShipVariant, activeActionVariant, isLoading: isLoadingVariants } = useVariants()
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center space-x-4">
+            <Link href="/admin" className="flex items-center space-x-2 text-foreground hover:text-primary transition-colors">
+              <ArrowLeft className="h-5 w-5" />
+              <span>Admin</span>
+            </Link>
+            <div className="h-6 w-px bg-border"></div>
+            <h1 className="text-2xl font-bold text-foreground">Templates &amp; Variants</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        {!isOwner ? (
+          <div className="max-w-4xl mx-auto bg-card border border-border rounded-lg p-8 text-center">
+            <Shield className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-card-foreground mb-2">
+              {isLoadingOwner ? 'Checking access...' : 'Access Denied'}
+            </h2>
+            <p className="text-card-foreground/70">
+              Only the ActionNFTManager owner can author templates and variants.
+            </p>
+          </div>
+        ) : (
+          <>
+            <ActionTemplateEditor onCreated={refetchTemplates} />
+            <TemplateAssignments templates={templates} actionVariants={actionVariants} isLoading={isLoadingTemplates} />
+            <VariantPanel
+              shipVariants={shipVariants}
+              actionVariants={actionVariants}
+              activeShipVariant={activeShipVariant}
+              activeActionVariant={activeActionVariant}
+              isLoading={isLoadingVariants}
+            />
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
\ No newline at end of file
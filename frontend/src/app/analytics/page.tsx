@@ -0,0 +1,208 @@
+'use client'
+
+import { useState } from 'react'
+import { ArrowLeft, BarChart3, Coins, Lock, TrendingUp } from 'lucide-react'
+import Link from 'next/link'
+import { formatEther } from 'viem'
+import EpochBarChart from '@/components/analytics/EpochBarChart'
+import { useProtocolHistory } from '@/hooks/useProtocolStats'
+
+const RANGE_OPTIONS = [8, 12, 26]
+
+const formatShip = (value?: bigint) =>
+  value !== undefined ? Number(formatEther(value)).toLocaleString(undefined, { maximumFractionDigits: 2 }) : '...'
+
+const percentOf = (part?: bigint, whole?: bigint) =>
+  part !== undefined && whole ? Number((part * BigInt(10000)) / whole) / 100 : 0
+
+export default function AnalyticsPage() {
+  const [epochCount, setEpochCount] = useState(12)
+  const {
+    history,
+    currentEpoch,
+    weeklyRevenue,
+    emissionRevenueMultiplier,
+    baseEmissionRate,
+    staking,
+    lootbox,
+    totalSupply,
+    isLoading,
+  } = useProtocolHistory(epochCount)
+
+  const epochs = history.map(h => h.epoch)
+  const totalGameRevenue = history.reduce((sum, h) => sum + h.gameRevenue, BigInt(0))
+  const totalLootboxBucket = history.reduce((sum, h) => sum + h.lootboxRevenue, BigInt(0))
+  const stakedShare = percentOf(staking?.totalStaked, totalSupply)
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Link href="/" className="flex items-center space-x-2 text-foreground hover:text-primary transition-colors">
+                <ArrowLeft className="h-5 w-5" />
+                <span>Back to Home</span>
+              </Link>
+              <div className="h-6 w-px bg-border"></div>
+              <h1 className="text-2xl font-bold text-foreground">Protocol Analytics</h1>
+            </div>
+            <div className="flex space-x-1 bg-card/30 rounded-lg p-1">
+              {RANGE_OPTIONS.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setEpochCount(option)}
+                  className={`px-3 py-1 rounded-md text-sm transition-colors ${
+                    epochCount === option
+                      ? 'bg-primary text-primary-foreground'
+                      : 'text-foreground/70 hover:text-foreground'
+                  }`}
+                >
+                  {option} epochs
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        {/* Snapshot */}
+        <div className="grid md:grid-cols-4 gap-4">
+          <div className="bg-card border border-border rounded-lg p-6">
+            <div className="flex items-center space-x-2 text-card-foreground/70 mb-2">
+              <BarChart3 className="h-4 w-4 text-accent" />
+              <span className="text-sm">Current Epoch</span>
+            </div>
+            <div className="text-2xl font-bold text-card-foreground">{currentEpoch || '...'}</div>
+          </div>
+          <div className="bg-card border border-border rounded-lg p-6">
+            <div className="flex items-center space-x-2 text-card-foreground/70 mb-2">
+              <TrendingUp className="h-4 w-4 text-accent" />
+              <span className="text-sm">Revenue This Epoch</span>
+            </div>
+            <div className="text-2xl font-bold text-card-foreground">{formatShip(weeklyRevenue?.total)}</div>
+            <div className="text-xs text-card-foreground/60 mt-1">
+              Games {formatShip(weeklyRevenue?.game)} · Lootbox &amp; market {formatShip(weeklyRevenue?.lootbox)}
+            </div>
+          </div>
+          <div className="bg-card border border-border rounded-lg p-6">
+            <div className="flex items-center space-x-2 text-card-foreground/70 mb-2">
+              <Coins className="h-4 w-4 text-accent" />
+              <span className="text-sm">Emission Rate</span>
+            </div>
+            <div className="text-2xl font-bold text-card-foreground">{formatShip(baseEmissionRate)}</div>
+            <div className="text-xs text-card-foreground/60 mt-1">
+              + {emissionRevenueMultiplier?.toString() ?? '...'}% of last epoch&apos;s revenue
+            </div>
+          </div>
+          <div className="bg-card border border-border rounded-lg p-6">
+            <div className="flex items-center space-x-2 text-card-foreground/70 mb-2">
+              <Lock className="h-4 w-4 text-accent" />
+              <span className="text-sm">Staked Supply</span>
+            </div>
+            <div className="text-2xl font-bold text-card-foreground">{stakedShare.toFixed(2)}%</div>
+            <div className="text-xs text-card-foreground/60 mt-1">
+              {formatShip(staking?.totalStaked)} of {formatShip(totalSupply)} SHIP
+            </div>
+          </div>
+        </div>
+
+        {isLoading && history.length === 0 && (
+          <div className="text-center text-foreground/60">Loading epoch history...</div>
+        )}
+
+        {/* Emissions vs Revenue */}
+        <div className="grid lg:grid-cols-2 gap-6">
+          <EpochBarChart
+            title="Emissions vs Revenue"
+            epochs={epochs}
+            series={[
+              { label: 'Emissions', color: 'bg-primary', values: history.map(h => h.emissions) },
+              { label: 'Revenue', color: 'bg-accent', values: history.map(h => h.gameRevenue + h.lootboxRevenue) },
+            ]}
+          />
+          <EpochBarChart
+            title="Dynamic Emissions"
+            epochs={epochs}
+            stacked
+            series={[
+              { label: 'Base rate', color: 'bg-primary/60', values: history.map(h => h.dynamicEmissions - h.revenueBonus) },
+              { label: 'Revenue bonus', color: 'bg-green-500', values: history.map(h => h.revenueBonus) },
+            ]}
+          />
+        </div>
+
+        {/* Revenue by Source */}
+        <div className="grid lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <EpochBarChart
+              title="Revenue by Source"
+              epochs={epochs}
+              stacked
+              series={[
+                { label: 'Games', color: 'bg-blue-500', values: history.map(h => h.gameRevenue) },
+                { label: 'Lootboxes & marketplace', color: 'bg-purple-500', values: history.map(h => h.lootboxRevenue) },
+              ]}
+            />
+          </div>
+          <div className="bg-card border border-border rounded-lg p-6">
+            <h3 className="text-lg font-semibold text-card-foreground mb-4">Source Totals</h3>
+            <div className="space-y-3 text-sm">
+              <div className="flex justify-between">
+                <span className="text-card-foreground/70">Game fees ({epochs.length} epochs)</span>
+                <span className="font-semibold text-card-foreground">{formatShip(totalGameRevenue)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-card-foreground/70">Lootbox &amp; marketplace ({epochs.length} epochs)</span>
+                <span className="font-semibold text-card-foreground">{formatShip(totalLootboxBucket)}</span>
+              </div>
+              <div className="border-t border-border pt-3 flex justify-between">
+                <span className="text-card-foreground/70">LootboxSystem all-time sales</span>
+                <span className="font-semibold text-card-foreground">{formatShip(lootbox?.totalRevenue)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-card-foreground/70">Lootbox sales today</span>
+                <span className="font-semibold text-card-foreground">{formatShip(lootbox?.dailyRevenue)}</span>
+              </div>
+            </div>
+            <div className="text-xs text-card-foreground/60 mt-4">
+              TokenomicsCore books marketplace fees together with lootbox revenue, so the two are only
+              separable through LootboxSystem&apos;s own sales figures.
+            </div>
+          </div>
+        </div>
+
+        {/* Staking Participation */}
+        <div className="bg-card border border-border rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-card-foreground mb-4">Staking Participation</h3>
+          <div className="grid md:grid-cols-4 gap-6 text-sm">
+            <div>
+              <div className="text-card-foreground/60 mb-1">Stakers</div>
+              <div className="text-xl font-bold text-card-foreground">{staking?.totalStakers.toString() ?? '...'}</div>
+            </div>
+            <div>
+              <div className="text-card-foreground/60 mb-1">Weighted Stake</div>
+              <div className="text-xl font-bold text-card-foreground">{formatShip(staking?.totalWeightedStake)}</div>
+            </div>
+            <div>
+              <div className="text-card-foreground/60 mb-1">Average Multiplier</div>
+              <div className="text-xl font-bold text-card-foreground">
+                {staking ? `${(Number(staking.averageMultiplier) / 1000).toFixed(2)}x` : '...'}
+              </div>
+            </div>
+            <div>
+              <div className="text-card-foreground/60 mb-1">Rewards Distributed</div>
+              <div className="text-xl font-bold text-card-foreground">{formatShip(staking?.totalRewardsDistributed)}</div>
+            </div>
+          </div>
+          <div className="w-full bg-secondary/20 rounded-full h-3 mt-6">
+            <div className="bg-accent h-3 rounded-full" style={{ width: `${Math.min(100, stakedShare)}%` }} />
+          </div>
+          <div className="text-xs text-card-foreground/60 mt-1">{stakedShare.toFixed(2)}% of SHIP supply staked</div>
+        </div>
+      </main>
+    </div>
+  )
+}
\ No newline at end of file
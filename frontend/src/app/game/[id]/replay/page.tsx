@@ -0,0 +1,52 @@
+'use client'
+
+import { Suspense } from 'react'
+import { ArrowLeft } from 'lucide-react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import ReplayViewer from '@/components/game/ReplayViewer'
+
+const parseGameId = (id?: string) => (id && /^\d+$/.test(id) ? BigInt(id) : null)
+
+export default function ReplayPage() {
+  const params = useParams<{ id: string }>()
+  const gameId = parseGameId(params.id)
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Link href="/game" className="flex items-center space-x-2 text-foreground hover:text-primary transition-colors">
+                <ArrowLeft className="h-5 w-5" />
+                <span>Back to Game</span>
+              </Link>
+              <div className="h-6 w-px bg-border"></div>
+              <h1 className="text-2xl font-bold text-foreground">Battle Replay</h1>
+            </div>
+            {gameId !== null && (
+              <div className="text-sm text-foreground/80">
+                Game ID: <span className="text-primary font-mono">#{gameId.toString()}</span>
+              </div>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        {gameId === null ? (
+          <div className="text-center py-12">
+            <div className="text-6xl mb-4">❓</div>
+            <h3 className="text-xl font-semibold text-foreground mb-2">Unknown Game</h3>
+            <p className="text-foreground/70">&quot;{params.id}&quot; is not a valid game ID.</p>
+          </div>
+        ) : (
+          <Suspense>
+            <ReplayViewer gameId={gameId} />
+          </Suspense>
+        )}
+      </main>
+    </div>
+  )
+}
\ No newline at end of file
@@ -178,6 +178,9 @@ export default function Home() {
             <Link href="/fleet" className="px-6 py-3 bg-secondary text-secondary-foreground border border-border rounded-lg hover:bg-secondary/80 transition-colors font-semibold">
               View Fleet
             </Link>
+            <Link href="/analytics" className="px-6 py-3 bg-secondary text-secondary-foreground border border-border rounded-lg hover:bg-secondary/80 transition-colors font-semibold">
+              Protocol Analytics
+            </Link>
           </div>
         </section>
       </main>
@@ -0,0 +1,276 @@
+'use client'
+
+import { Anchor, ArrowLeft, Clock, Shield, Swords, Target, Trophy, Users, Zap } from 'lucide-react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { useAccount } from 'wagmi'
+import { formatEther, getAddress, isAddress } from 'viem'
+import EpochBarChart from '@/components/analytics/EpochBarChart'
+import { usePlayerProfile } from '@/hooks/usePlayerProfile'
+import { useUserNFTs, nftKey } from '@/hooks/useNFTs'
+import { shortAddress } from '@/lib/format'
+import { GAME_SIZE_NAMES } from '@/lib/gameConfig'
+
+const rarityColors: Record<string, string> = {
+  COMMON: 'border-gray-400 bg-gray-400/10',
+  UNCOMMON: 'border-green-400 bg-green-400/10',
+  RARE: 'border-blue-400 bg-blue-400/10',
+  EPIC: 'border-purple-400 bg-purple-400/10',
+  LEGENDARY: 'border-orange-400 bg-orange-400/10'
+}
+
+const typeIcons = {
+  SHIP: Anchor,
+  ACTION: Zap,
+  CAPTAIN: Shield,
+  CREW: Users
+}
+
+const formatDuration = (seconds?: number) => {
+  if (seconds === undefined) return '—'
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `${minutes}m`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+const formatShip = (value?: bigint) =>
+  value !== undefined ? Number(formatEther(value)).toLocaleString(undefined, { maximumFractionDigits: 2 }) : '...'
+
+const STATUS_LABELS = ['Waiting', 'In progress', 'Completed', 'Cancelled']
+
+export default function PlayerPage() {
+  const params = useParams<{ address: string }>()
+  const player = isAddress(params.address) ? getAddress(params.address) : undefined
+  const { address: account } = useAccount()
+  const isSelf = !!player && !!account && player.toLowerCase() === account.toLowerCase()
+
+  const { matches, record, shipsLost, creditsByEpoch, activeCredits, staking, activeGameId, isLoading, isSyncing, error } =
+    usePlayerProfile(player)
+  const { nfts, isLoading: isLoadingNFTs, shipCount, actionCount, captainCount, crewCount } = useUserNFTs(player, { enabled: !!player })
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Link href="/" className="flex items-center space-x-2 text-foreground hover:text-primary transition-colors">
+                <ArrowLeft className="h-5 w-5" />
+                <span>Back to Home</span>
+              </Link>
+              <div className="h-6 w-px bg-border"></div>
+              <h1 className="text-2xl font-bold text-foreground">Player Profile</h1>
+            </div>
+            {player && (
+              <div className="text-sm text-foreground/80 font-mono">
+                {shortAddress(player)}{isSelf && <span className="text-primary font-sans ml-2">(You)</span>}
+              </div>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        {!player ? (
+          <div className="text-center py-12">
+            <div className="text-6xl mb-4">❓</div>
+            <h3 className="text-xl font-semibold text-foreground mb-2">Unknown Player</h3>
+            <p className="text-foreground/70">&quot;{params.address}&quot; is not a valid address.</p>
+          </div>
+        ) : (
+          <>
+            {error && (
+              <div className="p-3 bg-error/10 border border-error/20 rounded-lg">
+                <p className="text-error text-sm">Failed to load match history: {error.message}</p>
+              </div>
+            )}
+
+            {/* Record */}
+            <div className="grid md:grid-cols-4 gap-4">
+              <div className="bg-card border border-border rounded-lg p-6">
+                <div className="flex items-center space-x-2 text-card-foreground/70 mb-2">
+                  <Swords className="h-4 w-4 text-accent" />
+                  <span className="text-sm">Games Completed</span>
+                </div>
+                <div className="text-2xl font-bold text-card-foreground">{isLoading ? '...' : record.played}</div>
+                <div className="text-xs text-card-foreground/60 mt-1">
+                  {activeGameId ? `In game #${activeGameId.toString()} now` : `${record.inProgress} in progress`}
+                </div>
+              </div>
+              <div className="bg-card border border-border rounded-lg p-6">
+                <div className="flex items-center space-x-2 text-card-foreground/70 mb-2">
+                  <Trophy className="h-4 w-4 text-accent" />
+                  <span className="text-sm">Win Rate</span>
+                </div>
+                <div className="text-2xl font-bold text-card-foreground">{record.winRate.toFixed(1)}%</div>
+                <div className="text-xs text-card-foreground/60 mt-1">{record.won} won · {record.played - record.won} lost</div>
+              </div>
+              <div className="bg-card border border-border rounded-lg p-6">
+                <div className="flex items-center space-x-2 text-card-foreground/70 mb-2">
+                  <Clock className="h-4 w-4 text-accent" />
+                  <span className="text-sm">Average Game Length</span>
+                </div>
+                <div className="text-2xl font-bold text-card-foreground">{formatDuration(record.averageGameLength)}</div>
+              </div>
+              <div className="bg-card border border-border rounded-lg p-6">
+                <div className="flex items-center space-x-2 text-card-foreground/70 mb-2">
+                  <Target className="h-4 w-4 text-accent" />
+                  <span className="text-sm">Ships Lost</span>
+                </div>
+                <div className="text-2xl font-bold text-card-foreground">{shipsLost}</div>
+              </div>
+            </div>
+
+            {isSyncing && matches.length === 0 && (
+              <div className="text-center text-foreground/60 text-sm">Indexing game history...</div>
+            )}
+
+            <div className="grid lg:grid-cols-3 gap-6">
+              {/* By game size */}
+              <div className="bg-card border border-border rounded-lg p-6">
+                <h3 className="text-lg font-semibold text-card-foreground mb-4">Record by Game Size</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-card-foreground/60 border-b border-border">
+                      <th className="py-2 pr-4 font-medium">Size</th>
+                      <th className="py-2 pr-4 font-medium">Played</th>
+                      <th className="py-2 pr-4 font-medium">Won</th>
+                      <th className="py-2 font-medium text-right">Win Rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {GAME_SIZE_NAMES.map((name, size) => {
+                      const { played, won } = record.bySize[size]
+                      return (
+                        <tr key={name} className="border-b border-border/50">
+                          <td className="py-2 pr-4 text-card-foreground">{name}</td>
+                          <td className="py-2 pr-4 text-card-foreground">{played}</td>
+                          <td className="py-2 pr-4 text-card-foreground">{won}</td>
+                          <td className="py-2 text-right text-card-foreground">
+                            {played > 0 ? `${((won / played) * 100).toFixed(0)}%` : '—'}
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Match history */}
+              <div className="lg:col-span-2 bg-card border border-border rounded-lg p-6">
+                <h3 className="text-lg font-semibold text-card-foreground mb-4">Match History</h3>
+                {matches.length === 0 ? (
+                  <div className="text-center text-card-foreground/60 py-6">No games yet</div>
+                ) : (
+                  <div className="space-y-2 max-h-80 overflow-y-auto">
+                    {matches.map(match => (
+                      <div key={match.gameId.toString()} className="flex items-center justify-between bg-secondary/10 rounded-lg px-4 py-2 text-sm">
+                        <div>
+                          <span className="font-semibold text-card-foreground">
+                            {GAME_SIZE_NAMES[match.gameSize] ?? 'Unknown'} #{match.gameId.toString()}
+                          </span>
+                          <span className="text-card-foreground/60"> vs </span>
+                          <Link href={`/player/${match.opponent}`} className="font-mono text-card-foreground/80 hover:text-primary underline">
+                            {shortAddress(match.opponent)}
+                          </Link>
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          {match.status === 2 ? (
+                            <>
+                              <span className={match.won ? 'text-green-500 font-semibold' : 'text-red-500 font-semibold'}>
+                                {match.won ? 'Won' : 'Lost'}
+                              </span>
+                              <Link href={`/game/${match.gameId.toString()}/replay`} className="text-primary hover:underline">
+                                Replay
+                              </Link>
+                            </>
+                          ) : (
+                            <span className="text-card-foreground/60">{STATUS_LABELS[match.status] ?? 'Unknown'}</span>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="grid lg:grid-cols-3 gap-6">
+              {/* Credits */}
+              <div className="lg:col-span-2">
+                <EpochBarChart
+                  title="Credits Earned per Epoch"
+                  epochs={creditsByEpoch.map(entry => Number(entry.epoch))}
+                  series={[{ label: 'Credits', color: 'bg-primary', values: creditsByEpoch.map(entry => entry.amount) }]}
+                  unit="credits"
+                  decimals={0}
+                />
+              </div>
+
+              {/* Staking */}
+              <div className="bg-card border border-border rounded-lg p-6">
+                <h3 className="text-lg font-semibold text-card-foreground mb-4">Staking</h3>
+                <div className="space-y-3 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-card-foreground/70">Staked</span>
+                    <span className="font-semibold text-card-foreground">{formatShip(staking?.totalStaked)} SHIP</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-card-foreground/70">Active stakes</span>
+                    <span className="font-semibold text-card-foreground">{staking?.activeStakes.toString() ?? '...'}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-card-foreground/70">Weighted stake</span>
+                    <span className="font-semibold text-card-foreground">{formatShip(staking?.totalWeighted)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-card-foreground/70">Rewards earned</span>
+                    <span className="font-semibold text-card-foreground">{formatShip(staking?.totalRewards)} SHIP</span>
+                  </div>
+                  <div className="border-t border-border pt-3 flex justify-between">
+                    <span className="text-card-foreground/70">Active credits</span>
+                    <span className="font-semibold text-card-foreground">{activeCredits?.toString() ?? '...'}</span>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Fleet */}
+            <div className="bg-card border border-border rounded-lg p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-card-foreground">Fleet</h3>
+                <div className="text-sm text-card-foreground/70">
+                  {shipCount} ships · {captainCount} captains · {crewCount} crew · {actionCount} actions
+                </div>
+              </div>
+              {isLoadingNFTs ? (
+                <div className="text-center text-card-foreground/60 py-6">Loading fleet...</div>
+              ) : nfts.length === 0 ? (
+                <div className="text-center text-card-foreground/60 py-6">No NFTs</div>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
+                  {nfts.map(nft => {
+                    const Icon = typeIcons[nft.type]
+                    return (
+                      <div key={nftKey(nft)} className={`border-2 rounded-lg p-3 ${rarityColors[nft.rarity]}`}>
+                        <div className="flex items-center space-x-2 mb-1">
+                          <Icon className="h-4 w-4 text-card-foreground/80" />
+                          <span className="text-xs text-card-foreground/60">{nft.rarity}</span>
+                        </div>
+                        <div className="text-sm font-semibold text-card-foreground truncate">{nft.name}</div>
+                        {nft.type === 'SHIP' && nft.attributes.destroyed ? (
+                          <div className="text-xs text-red-500">Destroyed</div>
+                        ) : null}
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
\ No newline at end of file
@@ -1,84 +1,84 @@
-'use client'
-
-import { ConnectButton } from '@rainbow-me/rainbowkit'
-import { useAccount } from 'wagmi'
-
-export default function ConnectWallet() {
-  const { isConnected } = useAccount()
-  
-  return (
-    <ConnectButton.Custom>
-      {({ account, chain, openAccountModal, openChainModal, openConnectModal, mounted }) => {
-        const ready = mounted
-        const connected = ready && account && chain && isConnected
-
-        return (
-          <div
-            {...(!ready && {
-              'aria-hidden': true,
-              style: {
-                opacity: 0,
-                pointerEvents: 'none',
-                userSelect: 'none',
-              },
-            })}
-          >
-            {(() => {
-              if (!connected) {
-                return (
-                  <button 
-                    onClick={openConnectModal} 
-                    className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors font-semibold"
-                  >
-                    Connect Wallet
-                  </button>
-                )
-              }
-
-              if (chain.unsupported) {
-                return (
-                  <button 
-                    onClick={openChainModal} 
-                    className="px-4 py-2 bg-error text-white rounded-lg hover:bg-error/90 transition-colors font-semibold"
-                  >
-                    Wrong Network
-                  </button>
-                )
-              }
-
-              return (
-                <div className="flex items-center space-x-2">
-                  <button
-                    onClick={openChainModal}
-                    className="flex items-center space-x-2 px-3 py-2 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
-                  >
-                    {chain.hasIcon && (
-                      <div className="w-4 h-4 rounded-full overflow-hidden">
-                        {chain.iconUrl && (
-                          <img
-                            alt={chain.name ?? 'Chain icon'}
-                            src={chain.iconUrl}
-                            className="w-4 h-4"
-                          />
-                        )}
-                      </div>
-                    )}
-                    <span className="text-sm">{chain.name}</span>
-                  </button>
-
-                  <button
-                    onClick={openAccountModal}
-                    className="px-4 py-2 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors font-semibold"
-                  >
-                    {account.displayName}
-                    {account.displayBalance && ` (${account.displayBalance})`}
-                  </button>
-                </div>
-              )
-            })()}
-          </div>
-        )
-      }}
-    </ConnectButton.Custom>
-  )
+'use client'
+
+import { ConnectButton } from '@rainbow-me/rainbowkit'
+import { useAccount } from 'wagmi'
+
+export default function ConnectWallet() {
+  const { isConnected } = useAccount()
+  
+  return (
+    <ConnectButton.Custom>
+      {({ account, chain, openAccountModal, openChainModal, openConnectModal, mounted }) => {
+        const ready = mounted
+        const connected = ready && account && chain && isConnected
+
+        return (
+          <div
+            {...(!ready && {
+              'aria-hidden': true,
+              style: {
+                opacity: 0,
+                pointerEvents: 'none',
+                userSelect: 'none',
+              },
+            })}
+          >
+            {(() => {
+              if (!connected) {
+                return (
+                  <button 
+                    onClick={openConnectModal} 
+                    className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors font-semibold"
+                  >
+                    Connect Wallet
+                  </button>
+                )
+              }
+
+              if (chain.unsupported) {
+                return (
+                  <button 
+                    onClick={openChainModal} 
+                    className="px-4 py-2 bg-error text-white rounded-lg hover:bg-error/90 transition-colors font-semibold"
+                  >
+                    Wrong Network
+                  </button>
+                )
+              }
+
+              return (
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={openChainModal}
+                    className="flex items-center space-x-2 px-3 py-2 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+                  >
+                    {chain.hasIcon && (
+                      <div className="w-4 h-4 rounded-full overflow-hidden">
+                        {chain.iconUrl && (
+                          <img
+                            alt={chain.name ?? 'Chain icon'}
+                            src={chain.iconUrl}
+                            className="w-4 h-4"
+                          />
+                        )}
+                      </div>
+                    )}
+                    <span className="text-sm">{chain.name}</span>
+                  </button>
+
+                  <button
+                    onClick={openAccountModal}
+                    className="px-4 py-2 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors font-semibold"
+                  >
+                    {account.displayName}
+                    {account.displayBalance && ` (${account.displayBalance})`}
+                  </button>
+                </div>
+              )
+            })()}
+          </div>
+        )
+      }}
+    </ConnectButton.Custom>
+  )
 }
\ No newline at end of file
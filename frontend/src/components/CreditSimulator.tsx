@@ -0,0 +1,173 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Calculator } from 'lucide-react'
+import { formatEther } from 'viem'
+import { useContractReads, resultAt } from '@/hooks/useContract'
+import { projectEarnings, type CreditEntry, type EmissionCap } from '@/lib/credits'
+import { GAME_SIZE_NAMES } from '@/lib/gameConfig'
+
+const EPOCH_OPTIONS = [4, 8, 12]
+
+interface CreditSimulatorProps {
+  creditHistory: readonly CreditEntry[]
+  emissionCap: EmissionCap
+  // TokenomicsCore.currentEpoch, which credit decay is measured against
+  storedEpoch?: bigint
+}
+
+export default function CreditSimulator({ creditHistory, emissionCap, storedEpoch }: CreditSimulatorProps) {
+  const [gamesPerWeek, setGamesPerWeek] = useState([0, 0, 0, 0])
+  const [winRate, setWinRate] = useState(50)
+  const [epochs, setEpochs] = useState(8)
+
+  const { data: rates } = useContractReads(
+    GAME_SIZE_NAMES.map((_, size) => ({ contractName: 'GameConfig', functionName: 'getCreditsByGameSize', args: [size] } as const)),
+    { watch: true }
+  )
+
+  const { data } = useContractReads([
+    { contractName: 'GameConfig', functionName: 'getWeeklyEmissionRate' },
+    { contractName: 'TokenomicsCore', functionName: 'getTotalActiveCredits' },
+  ], { watch: true })
+
+  const creditRates = GAME_SIZE_NAMES.map((_, size) => resultAt(rates, size))
+  const emissionRate = resultAt(data, 0)
+  const totalActiveCredits = resultAt(data, 1)
+
+  // Expected credits per epoch, with winner and loser rates weighted by the win rate
+  const creditsPerEpoch = creditRates.reduce((sum, rates, size) => {
+    if (!rates) return sum
+    const [winner, loser] = rates
+    const perGame = (winner * BigInt(winRate) + loser * BigInt(100 - winRate)) / BigInt(100)
+    return sum + perGame * BigInt(gamesPerWeek[size])
+  }, BigInt(0))
+
+  const projection = useMemo(() => {
+    if (storedEpoch === undefined || emissionRate === undefined || totalActiveCredits === undefined) return []
+    return projectEarnings({
+      history: creditHistory,
+      currentEpoch: storedEpoch,
+      totalActiveCredits,
+      emissionRate,
+      creditsPerEpoch,
+      epochs,
+      cap: emissionCap,
+    })
+  }, [creditHistory, storedEpoch, totalActiveCredits, emissionRate, creditsPerEpoch, epochs, emissionCap])
+
+  const totalProjected = projection.reduce((sum, row) => sum + row.projectedEmissions, BigInt(0))
+
+  const setGames = (size: number, value: string) => {
+    const games = Math.max(0, parseInt(value) || 0)
+    setGamesPerWeek(prev => prev.map((count, index) => (index === size ? games : count)))
+  }
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <h4 className="text-lg font-semibold text-card-foreground mb-4 flex items-center">
+        <Calculator className="h-4 w-4 mr-2" />
+        Earnings Simulator
+      </h4>
+
+      {/* Play Schedule */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        {GAME_SIZE_NAMES.map((name, size) => (
+          <div key={name}>
+            <label className="block text-xs font-medium text-card-foreground/70 mb-1">
+              {name} games / week
+            </label>
+            <input
+              type="number"
+              min="0"
+              value={gamesPerWeek[size]}
+              onChange={(e) => setGames(size, e.target.value)}
+              className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+            />
+            <div className="text-xs text-card-foreground/50 mt-1">
+              {creditRates[size] ? `${creditRates[size][0].toString()} win / ${creditRates[size][1].toString()} loss` : '...'}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-card-foreground/70 mb-1">Win rate: {winRate}%</label>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={winRate}
+            onChange={(e) => setWinRate(parseInt(e.target.value))}
+            className="w-full accent-primary"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-card-foreground/70 mb-1">Project over</label>
+          <div className="flex gap-2">
+            {EPOCH_OPTIONS.map(option => (
+              <button
+                key={option}
+                onClick={() => setEpochs(option)}
+                className={`px-3 py-1 border rounded-lg text-sm transition-colors ${
+                  epochs === option
+                    ? 'border-primary bg-primary/10 text-primary'
+                    : 'border-border text-card-foreground hover:border-primary/50'
+                }`}
+              >
+                {option} epochs
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Projection */}
+      {projection.length === 0 ? (
+        <div className="text-center text-card-foreground/60 py-6">Loading emission parameters...</div>
+      ) : (
+        <>
+          <div className="flex justify-between items-center bg-secondary/10 rounded-lg p-3 mb-3 text-sm">
+            <span className="text-card-foreground/80">{creditsPerEpoch.toString()} credits per epoch</span>
+            <span className="font-semibold text-green-500">≈ {Number(formatEther(totalProjected)).toFixed(4)} SHIP total</span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-card-foreground/60 border-b border-border">
+                  <th className="py-2 pr-4 font-medium">Epoch</th>
+                  <th className="py-2 pr-4 font-medium">Current Credits Worth</th>
+                  <th className="py-2 pr-4 font-medium">Share of Active</th>
+                  <th className="py-2 font-medium text-right">Projected SHIP</th>
+                </tr>
+              </thead>
+              <tbody>
+                {projection.map(row => {
+                  const share = row.totalActive > BigInt(0)
+                    ? Number((row.playerActive * BigInt(10000)) / row.totalActive) / 100
+                    : 0
+                  return (
+                    <tr key={row.epoch.toString()} className="border-b border-border/50">
+                      <td className="py-2 pr-4 font-mono text-card-foreground">{row.epoch.toString()}</td>
+                      <td className="py-2 pr-4 text-card-foreground">{row.existingValue.toString()}</td>
+                      <td className="py-2 pr-4 text-card-foreground">{share.toFixed(2)}%</td>
+                      <td className="py-2 text-right font-semibold text-card-foreground">
+                        {Number(formatEther(row.projectedEmissions)).toFixed(4)}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="text-xs text-card-foreground/50 mt-2">
+            Uses the base weekly emission rate and holds other players&apos; active credits at today&apos;s level.
+            Revenue bonuses and other players&apos; activity will move the real numbers.
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
@@ -1,152 +1,181 @@
-'use client'
-
-import { useState, useEffect } from 'react'
-import { Clock, TrendingUp, Unlock } from 'lucide-react'
-
-interface UnlockData {
-  totalRewards: number
-  unlockedAmount: number
-  nextUnlockIn: string
-  unlockRate: number // tokens per hour
-}
-
-export default function LinearUnlockProgress() {
-  const [unlockData, setUnlockData] = useState<UnlockData>({
-    totalRewards: 1250,
-    unlockedAmount: 0,
-    nextUnlockIn: '',
-    unlockRate: 7.44 // 1250 tokens / 168 hours
-  })
-
-  const [, setCurrentTime] = useState(new Date())
-
-  useEffect(() => {
-    const updateProgress = () => {
-      const now = new Date()
-      setCurrentTime(now)
-      
-      // Simulate epoch start (3 days ago)
-      const epochStart = new Date(now.getTime() - 3 * 24 * 60 * 60 * 1000)
-      // Calculate epoch progress
-      
-      // Calculate elapsed time in hours
-      const elapsedHours = (now.getTime() - epochStart.getTime()) / (1000 * 60 * 60)
-      const totalHours = 168 // 7 days * 24 hours
-      
-      // Calculate unlocked amount (linear)
-      const progress = Math.max(0, Math.min(1, elapsedHours / totalHours))
-      const newUnlockedAmount = unlockData.totalRewards * progress
-      
-      // Calculate time to next hour unlock
-      const minutesToNextHour = 60 - now.getMinutes()
-      const secondsToNextHour = 60 - now.getSeconds()
-      
-      setUnlockData(prev => ({
-        ...prev,
-        unlockedAmount: newUnlockedAmount,
-        nextUnlockIn: `${minutesToNextHour - 1}m ${secondsToNextHour}s`
-      }))
-    }
-
-    updateProgress()
-    const interval = setInterval(updateProgress, 1000) // Update every second
-    
-    return () => clearInterval(interval)
-  }, [unlockData.totalRewards])
-
-  const progressPercentage = (unlockData.unlockedAmount / unlockData.totalRewards) * 100
-  const remainingRewards = unlockData.totalRewards - unlockData.unlockedAmount
-
-  return (
-    <div className="bg-card border border-border rounded-lg p-6">
-      <div className="flex items-center space-x-3 mb-4">
-        <div className="p-2 bg-accent/10 rounded-lg">
-          <Unlock className="h-5 w-5 text-accent" />
-        </div>
-        <h3 className="text-lg font-semibold text-card-foreground">Linear Unlock Progress</h3>
-      </div>
-
-      {/* Progress Overview */}
-      <div className="space-y-4">
-        <div className="flex justify-between items-center">
-          <span className="text-card-foreground/80">Current Epoch Rewards</span>
-          <span className="font-semibold text-card-foreground">{unlockData.totalRewards} SHIP</span>
-        </div>
-
-        {/* Progress Bar */}
-        <div>
-          <div className="flex justify-between text-sm text-card-foreground/80 mb-2">
-            <span>Unlocked</span>
-            <span>{progressPercentage.toFixed(1)}%</span>
-          </div>
-          <div className="w-full bg-secondary/20 rounded-full h-4 relative overflow-hidden">
-            <div 
-              className="bg-gradient-to-r from-accent to-primary h-4 rounded-full transition-all duration-1000 ease-out relative"
-              style={{ width: `${progressPercentage}%` }}
-            >
-              {/* Animated shimmer effect */}
-              <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent animate-pulse" />
-            </div>
-          </div>
-        </div>
-
-        {/* Unlock Details */}
-        <div className="grid grid-cols-2 gap-4 text-sm">
-          <div>
-            <div className="text-card-foreground/60 mb-1">Available to Claim</div>
-            <div className="font-semibold text-success text-lg">
-              {unlockData.unlockedAmount.toFixed(2)} SHIP
-            </div>
-          </div>
-          <div>
-            <div className="text-card-foreground/60 mb-1">Still Locked</div>
-            <div className="font-semibold text-card-foreground text-lg">
-              {remainingRewards.toFixed(2)} SHIP
-            </div>
-          </div>
-        </div>
-
-        {/* Unlock Rate */}
-        <div className="bg-secondary/10 rounded-lg p-3">
-          <div className="flex items-center space-x-2 mb-2">
-            <TrendingUp className="h-4 w-4 text-accent" />
-            <span className="text-sm font-medium text-card-foreground">Unlock Rate</span>
-          </div>
-          <div className="text-card-foreground/80 text-sm">
-            <div>{unlockData.unlockRate.toFixed(2)} SHIP per hour</div>
-            <div>{(unlockData.unlockRate * 24).toFixed(0)} SHIP per day</div>
-          </div>
-        </div>
-
-        {/* Next Unlock Timer */}
-        <div className="bg-accent/10 border border-accent/20 rounded-lg p-3">
-          <div className="flex items-center space-x-2 mb-1">
-            <Clock className="h-4 w-4 text-accent" />
-            <span className="text-sm font-medium text-card-foreground">Next Unlock</span>
-          </div>
-          <div className="text-card-foreground/80 text-sm">
-            <div>+{unlockData.unlockRate.toFixed(2)} SHIP in {unlockData.nextUnlockIn}</div>
-          </div>
-        </div>
-
-        {/* Claim Button */}
-        <button 
-          className="w-full px-4 py-3 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
-          disabled={unlockData.unlockedAmount < 0.01}
-        >
-          {unlockData.unlockedAmount >= 0.01 
-            ? `Claim ${unlockData.unlockedAmount.toFixed(2)} SHIP`
-            : 'No rewards to claim yet'
-          }
-        </button>
-
-        {/* Info Text */}
-        <div className="text-xs text-card-foreground/60">
-          <p>• Rewards unlock continuously throughout the epoch</p>
-          <p>• You can claim partial rewards at any time</p>
-          <p>• 30% available immediately, 70% vests over 1 week</p>
-        </div>
-      </div>
-    </div>
-  )
+'use client'
+
+import { useState, useEffect } from 'react'
+import { AlertTriangle, Clock, Unlock } from 'lucide-react'
+import { formatEther } from 'viem'
+import { useVesting } from '@/hooks/useVesting'
+
+const formatShip = (value: bigint) => Number(formatEther(value)).toLocaleString(undefined, { maximumFractionDigits: 2 })
+
+function formatCountdown(seconds: number) {
+  if (seconds <= 0) return 'now'
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return `${minutes}m ${seconds % 60}s`
+}
+
+export default function LinearUnlockProgress() {
+  const {
+    schedules,
+    claimable,
+    isReconciled,
+    totalVesting,
+    totalLocked,
+    storedEpoch,
+    epochsBehind,
+    nextEpochTime,
+    claimVested,
+    isClaiming,
+    claimError,
+  } = useVesting()
+
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000))
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000) // Update every second
+    return () => clearInterval(interval)
+  }, [])
+
+  const vestedTotal = totalVesting - totalLocked
+  const progressPercentage = totalVesting > BigInt(0) ? Number((vestedTotal * BigInt(10000)) / totalVesting) / 100 : 0
+  const hasClaimable = claimable > BigInt(0)
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <div className="flex items-center space-x-3 mb-4">
+        <div className="p-2 bg-accent/10 rounded-lg">
+          <Unlock className="h-5 w-5 text-accent" />
+        </div>
+        <h3 className="text-lg font-semibold text-card-foreground">Vesting Progress</h3>
+      </div>
+
+      {/* Progress Overview */}
+      <div className="space-y-4">
+        <div className="flex justify-between items-center">
+          <span className="text-card-foreground/80">Total Vesting</span>
+          <span className="font-semibold text-card-foreground">{formatShip(totalVesting)} SHIP</span>
+        </div>
+
+        {/* Progress Bar */}
+        <div>
+          <div className="flex justify-between text-sm text-card-foreground/80 mb-2">
+            <span>Unlocked</span>
+            <span>{progressPercentage.toFixed(1)}%</span>
+          </div>
+          <div className="w-full bg-secondary/20 rounded-full h-4 relative overflow-hidden">
+            <div
+              className="bg-gradient-to-r from-accent to-primary h-4 rounded-full transition-all duration-1000 ease-out relative"
+              style={{ width: `${progressPercentage}%` }}
+            >
+              {/* Animated shimmer effect */}
+              <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent animate-pulse" />
+            </div>
+          </div>
+        </div>
+
+        {/* Unlock Details */}
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <div className="text-card-foreground/60 mb-1">Available to Claim</div>
+            <div className="font-semibold text-success text-lg">
+              {formatShip(claimable)} SHIP
+            </div>
+          </div>
+          <div>
+            <div className="text-card-foreground/60 mb-1">Still Locked</div>
+            <div className="font-semibold text-card-foreground text-lg">
+              {formatShip(totalLocked)} SHIP
+            </div>
+          </div>
+        </div>
+
+        {/* Vesting Entries */}
+        {schedules.length > 0 && (
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {schedules.map((schedule, index) => {
+              const entryProgress = schedule.amount > BigInt(0)
+                ? Number((schedule.vested * BigInt(100)) / schedule.amount)
+                : 0
+              return (
+                <div key={index} className="bg-secondary/10 rounded-lg p-3 text-sm">
+                  <div className="flex justify-between mb-1">
+                    <span className="text-card-foreground font-medium">Epoch {schedule.startEpoch.toString()}</span>
+                    <span className="text-card-foreground">{formatShip(schedule.amount)} SHIP</span>
+                  </div>
+                  <div className="w-full bg-secondary/20 rounded-full h-2 mb-1">
+                    <div className="bg-accent h-2 rounded-full" style={{ width: `${entryProgress}%` }} />
+                  </div>
+                  <div className="flex justify-between text-xs text-card-foreground/60">
+                    <span>Claimed {formatShip(schedule.claimed)} · Claimable {formatShip(schedule.claimable)}</span>
+                    <span>
+                      {schedule.locked > BigInt(0)
+                        ? `Unlocks ${new Date(schedule.endTime * 1000).toLocaleDateString()}`
+                        : 'Fully vested'}
+                    </span>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {/* Next Unlock Timer */}
+        {totalLocked > BigInt(0) && nextEpochTime !== undefined && (
+          <div className="bg-accent/10 border border-accent/20 rounded-lg p-3">
+            <div className="flex items-center space-x-2 mb-1">
+              <Clock className="h-4 w-4 text-accent" />
+              <span className="text-sm font-medium text-card-foreground">Next Unlock</span>
+            </div>
+            <div className="text-card-foreground/80 text-sm">
+              Epoch {storedEpoch !== undefined ? (storedEpoch + BigInt(1)).toString() : '...'} in {formatCountdown(nextEpochTime - now)}
+            </div>
+          </div>
+        )}
+
+        {epochsBehind > 0 && (
+          <div className="flex items-start space-x-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-xs text-yellow-700">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            <span>
+              TokenomicsCore is {epochsBehind} epoch{epochsBehind === 1 ? '' : 's'} behind the clock. Vesting unlocks
+              when the next emission, credit or revenue transaction advances it.
+            </span>
+          </div>
+        )}
+
+        {/* Claim Button */}
+        <button
+          onClick={claimVested}
+          className="w-full px-4 py-3 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={!hasClaimable || isClaiming}
+        >
+          {isClaiming
+            ? 'Claiming...'
+            : hasClaimable
+              ? `Claim ${formatShip(claimable)} SHIP`
+              : 'No rewards to claim yet'
+          }
+        </button>
+
+        {!isReconciled && (
+          <div className="text-xs text-card-foreground/60">Refreshing vesting entries...</div>
+        )}
+
+        {claimError && (
+          <div className="p-2 bg-error/10 border border-error/20 rounded">
+            <p className="text-error text-xs">Claim Error: {claimError.message}</p>
+          </div>
+        )}
+
+        {/* Info Text */}
+        <div className="text-xs text-card-foreground/60">
+          <p>• Vested emissions unlock in whole epochs, not continuously</p>
+          <p>• Claiming pays out everything unlocked across all entries</p>
+          <p>• 30% of emissions are liquid at claim time, 70% vests</p>
+        </div>
+      </div>
+    </div>
+  )
 }
\ No newline at end of file
@@ -0,0 +1,98 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Package } from 'lucide-react'
+import SVGRenderer, { getRarityColors } from './SVGRenderer'
+import { useContractAddresses } from '@/hooks/useNetwork'
+import { NFT_CONTRACTS, RARITIES, type NFT } from '@/hooks/useNFTs'
+import type { LootboxDrop, LootboxReveal } from '@/hooks/useLootbox'
+
+interface LootboxRevealCardsProps {
+  reveal: LootboxReveal
+}
+
+// Delay between consecutive card flips
+const FLIP_STAGGER_MS = 450
+
+function RevealCard({ drop, delay }: { drop: LootboxDrop; delay: number }) {
+  const [isFlipped, setIsFlipped] = useState(false)
+  const addresses = useContractAddresses()
+  const colors = getRarityColors(drop.rarity)
+  // Rarer drops glow brighter
+  const glow = 6 + RARITIES.indexOf(drop.rarity) * 6
+  const isHighRarity = drop.rarity === 'EPIC' || drop.rarity === 'LEGENDARY'
+
+  useEffect(() => {
+    const timer = setTimeout(() => setIsFlipped(true), delay)
+    return () => clearTimeout(timer)
+  }, [delay])
+
+  const nft: NFT = {
+    tokenId: drop.tokenId,
+    type: drop.type,
+    rarity: drop.rarity,
+    name: `${drop.type.charAt(0)}${drop.type.slice(1).toLowerCase()} #${drop.tokenId}`,
+    attributes: {},
+    contractAddress: addresses[NFT_CONTRACTS[drop.type]],
+  }
+
+  return (
+    <button
+      onClick={() => setIsFlipped(true)}
+      className="relative aspect-[3/4] w-full perspective-[1000px]"
+      title={isFlipped ? nft.name : 'Reveal'}
+    >
+      <div
+        className={`relative h-full w-full transition-transform duration-700 transform-3d ${isFlipped ? 'rotate-y-180' : ''}`}
+      >
+        {/* Card back */}
+        <div className="absolute inset-0 backface-hidden flex items-center justify-center rounded-lg border-2 border-border bg-secondary">
+          <Package className="h-10 w-10 text-card-foreground/50" />
+        </div>
+
+        {/* Card face */}
+        <div
+          className="absolute inset-0 backface-hidden rotate-y-180 rounded-lg border-2 bg-card overflow-hidden flex flex-col"
+          style={{
+            borderColor: colors.primary,
+            boxShadow: isFlipped ? `0 0 ${glow}px ${colors.secondary}` : undefined,
+          }}
+        >
+          {isHighRarity && isFlipped && (
+            <div
+              className="absolute inset-0 animate-pulse pointer-events-none"
+              style={{ background: `radial-gradient(circle, ${colors.accent}33 0%, transparent 70%)` }}
+            />
+          )}
+          {isFlipped && <SVGRenderer nft={nft} className="flex-1 w-full [&>svg]:w-full [&>svg]:h-full" />}
+          <div className="p-2 text-center" style={{ backgroundColor: `${colors.primary}33` }}>
+            <div className="text-xs font-semibold" style={{ color: colors.accent }}>{drop.rarity}</div>
+            <div className="text-xs text-card-foreground/80 truncate">{nft.name}</div>
+          </div>
+        </div>
+      </div>
+    </button>
+  )
+}
+
+export default function LootboxRevealCards({ reveal }: LootboxRevealCardsProps) {
+  if (reveal.drops.length === 0) {
+    return (
+      <p className="text-sm text-card-foreground/60">
+        No minted tokens were found in this transaction
+      </p>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+      {reveal.drops.map((drop, index) => (
+        <RevealCard
+          key={`${drop.type}-${drop.tokenId}`}
+          drop={drop}
+          delay={(index + 1) * FLIP_STAGGER_MS}
+        />
+      ))}
+    </div>
+  )
+}
\ No newline at end of file
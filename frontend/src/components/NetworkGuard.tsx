@@ -0,0 +1,45 @@
+'use client'
+
+import { AlertTriangle } from 'lucide-react'
+import { useNetworkStatus } from '@/hooks/useNetwork'
+
+interface NetworkGuardProps {
+  children: React.ReactNode
+}
+
+// Blocks the app while the wallet is on a chain we have no deployment for
+export default function NetworkGuard({ children }: NetworkGuardProps) {
+  const { walletChainId, isSupported, supportedChains, switchChain, isSwitching, switchError } = useNetworkStatus()
+
+  if (isSupported) return <>{children}</>
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8">
+      <div className="max-w-md w-full bg-card border border-border rounded-lg p-8 text-center">
+        <AlertTriangle className="h-12 w-12 text-error mx-auto mb-4" />
+        <h2 className="text-2xl font-bold text-card-foreground mb-2">Unsupported Network</h2>
+        <p className="text-card-foreground/70 mb-6">
+          Your wallet is connected to chain {walletChainId}, where CryptoBattleship is not deployed.
+          Switch to one of the supported networks to continue.
+        </p>
+
+        <div className="space-y-2">
+          {supportedChains.map(chain => (
+            <button
+              key={chain.id}
+              onClick={() => switchChain(chain.id)}
+              disabled={isSwitching}
+              className="w-full px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 transition-colors font-semibold"
+            >
+              {isSwitching ? 'Switching...' : `Switch to ${chain.name}`}
+            </button>
+          ))}
+        </div>
+
+        {switchError && (
+          <p className="mt-4 text-sm text-error">{switchError.message}</p>
+        )}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,89 @@
+'use client'
+
+import { History, Trash2 } from 'lucide-react'
+import { getRarityColors } from './SVGRenderer'
+import { RARITIES } from '@/hooks/useNFTs'
+import type { PullRecord, PullStats } from '@/hooks/usePullHistory'
+
+interface PullHistoryProps {
+  pulls: PullRecord[]
+  stats: PullStats
+  onClear: () => void
+}
+
+// How many individual pulls to list under the summary
+const RECENT_PULLS = 10
+
+export default function PullHistory({ pulls, stats, onClear }: PullHistoryProps) {
+  if (pulls.length === 0) return null
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-secondary rounded-lg">
+            <History className="h-6 w-6 text-card-foreground" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-card-foreground">Pull History</h2>
+            <p className="text-card-foreground/70">
+              {stats.totalDrops} drops from {stats.lootboxesOpened} lootbox{stats.lootboxesOpened !== 1 ? 'es' : ''} opened in this browser
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onClear}
+          className="p-2 text-card-foreground/60 hover:text-error transition-colors"
+          title="Clear history"
+        >
+          <Trash2 className="h-5 w-5" />
+        </button>
+      </div>
+
+      {/* Rarity distribution */}
+      <div className="space-y-2 mb-6">
+        {RARITIES.map(rarity => {
+          const count = stats.byRarity[rarity]
+          const share = stats.totalDrops > 0 ? (count / stats.totalDrops) * 100 : 0
+          const colors = getRarityColors(rarity)
+          return (
+            <div key={rarity} className="flex items-center space-x-3 text-sm">
+              <span className="w-24 text-card-foreground/70">{rarity}</span>
+              <div className="flex-1 h-2 bg-secondary rounded-full overflow-hidden">
+                <div
+                  className="h-full rounded-full"
+                  style={{ width: `${share}%`, backgroundColor: colors.secondary }}
+                />
+              </div>
+              <span className="w-20 text-right text-card-foreground">
+                {count} ({share.toFixed(1)}%)
+              </span>
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Recent pulls */}
+      <div className="space-y-2">
+        {pulls.slice(0, RECENT_PULLS).map(pull => (
+          <div key={pull.transactionHash} className="flex items-center justify-between p-2 bg-secondary/20 rounded">
+            <div className="text-sm">
+              <span className="text-card-foreground font-medium">Lootbox #{pull.lootboxId}</span>
+              <span className="text-card-foreground/60 ml-2">{new Date(pull.openedAt).toLocaleString()}</span>
+            </div>
+            <div className="flex space-x-1">
+              {pull.drops.map(drop => (
+                <span
+                  key={`${drop.type}-${drop.tokenId}`}
+                  className="h-3 w-3 rounded-full"
+                  style={{ backgroundColor: getRarityColors(drop.rarity).secondary }}
+                  title={`${drop.type} #${drop.tokenId} (${drop.rarity})`}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,175 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle, Layers, Lock, Unlock } from 'lucide-react'
+import { formatEther } from 'viem'
+import { useStaking, penaltyAmount, BASE_MULTIPLIER, type StakePosition } from '@/hooks/useStaking'
+
+type PendingExit = { stakeId: bigint; emergency: boolean }
+
+const formatShip = (value: bigint) => Number(formatEther(value)).toLocaleString(undefined, { maximumFractionDigits: 4 })
+
+const formatMultiplier = (multiplier: bigint) => `${(Number(multiplier) / BASE_MULTIPLIER).toFixed(2)}x`
+
+const formatUnlock = (unlockTime: bigint) => new Date(Number(unlockTime) * 1000).toLocaleDateString()
+
+export default function StakePositions() {
+  const {
+    positions,
+    stakingInfo,
+    emergencyWithdrawEnabled,
+    emergencyWithdrawPenalty,
+    unstakeTokens,
+    emergencyUnstakeTokens,
+    isUnstaking,
+    isEmergencyUnstaking,
+    unstakeError,
+    emergencyUnstakeError,
+  } = useStaking()
+  const [pendingExit, setPendingExit] = useState<PendingExit | null>(null)
+
+  const confirmExit = async (position: StakePosition, emergency: boolean) => {
+    try {
+      if (emergency) {
+        await emergencyUnstakeTokens(position.stakeId)
+      } else {
+        await unstakeTokens(position.stakeId)
+      }
+      setPendingExit(null)
+    } catch (error) {
+      console.error('Unstake failed:', error)
+    }
+  }
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <h3 className="text-xl font-semibold text-card-foreground mb-4 flex items-center">
+        <Layers className="h-5 w-5 mr-2 text-accent" />
+        Your Positions
+      </h3>
+
+      {stakingInfo && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 text-sm">
+          <div>
+            <div className="text-card-foreground/60">Total Staked</div>
+            <div className="font-semibold text-card-foreground">{formatShip(stakingInfo[0])} SHIP</div>
+          </div>
+          <div>
+            <div className="text-card-foreground/60">Weighted Stake</div>
+            <div className="font-semibold text-card-foreground">{formatShip(stakingInfo[1])} SHIP</div>
+          </div>
+          <div>
+            <div className="text-card-foreground/60">Active Stakes</div>
+            <div className="font-semibold text-card-foreground">{stakingInfo[3].toString()}</div>
+          </div>
+          <div>
+            <div className="text-card-foreground/60">Pending Rewards</div>
+            <div className="font-semibold text-accent">{formatShip(stakingInfo[4])} SHIP</div>
+          </div>
+        </div>
+      )}
+
+      {positions.length === 0 ? (
+        <div className="text-center text-card-foreground/60 py-6">No active stakes</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-card-foreground/60 border-b border-border">
+                <th className="py-2 pr-4 font-medium">Stake</th>
+                <th className="py-2 pr-4 font-medium">Amount</th>
+                <th className="py-2 pr-4 font-medium">Multiplier</th>
+                <th className="py-2 pr-4 font-medium">Lock Ends</th>
+                <th className="py-2 pr-4 font-medium">Pending</th>
+                <th className="py-2 font-medium text-right">Exit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {positions.map(position => {
+                const isPending = pendingExit?.stakeId === position.stakeId
+                const quotePercent = pendingExit?.emergency ? emergencyWithdrawPenalty ?? BigInt(0) : position.penaltyPercent
+                const forfeited = penaltyAmount(position.amount, quotePercent)
+
+                return (
+                  <tr key={position.stakeId.toString()} className="border-b border-border/50 align-top">
+                    <td className="py-3 pr-4 font-mono text-card-foreground">#{position.stakeId.toString()}</td>
+                    <td className="py-3 pr-4 text-card-foreground">{formatShip(position.amount)} SHIP</td>
+                    <td className="py-3 pr-4 text-accent font-semibold">{formatMultiplier(position.multiplier)}</td>
+                    <td className="py-3 pr-4">
+                      <div className="flex items-center space-x-1 text-card-foreground">
+                        {position.isLocked ? <Lock className="h-3 w-3 text-yellow-500" /> : <Unlock className="h-3 w-3 text-green-500" />}
+                        <span>{formatUnlock(position.unlockTime)}</span>
+                      </div>
+                      <div className="text-xs text-card-foreground/60">{position.lockWeeks.toString()} week lock</div>
+                    </td>
+                    <td className="py-3 pr-4 text-card-foreground">{formatShip(position.pendingRewards)} SHIP</td>
+                    <td className="py-3 text-right">
+                      {isPending ? (
+                        <div className="inline-block text-left p-3 bg-yellow-50 border border-yellow-200 rounded-lg min-w-56">
+                          <div className="flex items-center text-yellow-800 font-semibold mb-1">
+                            <AlertTriangle className="h-4 w-4 mr-1" />
+                            {pendingExit.emergency ? 'Emergency unstake' : 'Unstake'}
+                          </div>
+                          <div className="text-xs text-yellow-700 space-y-1 mb-2">
+                            <div>Penalty: {quotePercent.toString()}% ({formatShip(forfeited)} SHIP forfeited)</div>
+                            <div>You receive: {formatShip(position.amount - forfeited)} SHIP</div>
+                            {!pendingExit.emergency && position.pendingRewards > BigInt(0) && (
+                              <div>Pending rewards are claimed first</div>
+                            )}
+                            {pendingExit.emergency && position.pendingRewards > BigInt(0) && (
+                              <div>Pending rewards are forfeited</div>
+                            )}
+                          </div>
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => confirmExit(position, pendingExit.emergency)}
+                              disabled={isUnstaking || isEmergencyUnstaking}
+                              className="px-3 py-1 text-xs bg-red-500 text-white rounded hover:bg-red-600 disabled:opacity-50 transition-colors"
+                            >
+                              {isUnstaking || isEmergencyUnstaking ? 'Processing...' : 'Confirm'}
+                            </button>
+                            <button
+                              onClick={() => setPendingExit(null)}
+                              className="px-3 py-1 text-xs bg-secondary text-secondary-foreground rounded hover:bg-secondary/80 transition-colors"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="flex flex-col items-end gap-1">
+                          <button
+                            onClick={() => setPendingExit({ stakeId: position.stakeId, emergency: false })}
+                            className="px-3 py-1 text-xs bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors"
+                          >
+                            Unstake{position.penaltyPercent > BigInt(0) ? ` (-${position.penaltyPercent.toString()}%)` : ''}
+                          </button>
+                          {emergencyWithdrawEnabled && (
+                            <button
+                              onClick={() => setPendingExit({ stakeId: position.stakeId, emergency: true })}
+                              className="px-3 py-1 text-xs bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
+                            >
+                              Emergency
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {(unstakeError || emergencyUnstakeError) && (
+        <div className="mt-4 p-3 bg-error/10 border border-error/20 rounded-lg">
+          <p className="text-error text-sm">
+            Error: {(unstakeError || emergencyUnstakeError)?.message || 'Unstake failed'}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,208 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus } from 'lucide-react'
+import { useContractWrite } from '@/hooks/useContract'
+import { RARITIES } from '@/hooks/useNFTs'
+import { PATTERN_OFFSETS } from '@/lib/actions'
+import { isWithin } from '@/lib/gameConfig'
+import { actionPlacardSVG, hasUnsafeSvgText, TEMPLATE_LIMITS } from '@/lib/placards'
+
+interface ActionTemplateEditorProps {
+  onCreated: () => void
+}
+
+const inputClass = 'w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground'
+
+const offsetAt = (dx: number, dy: number) =>
+  PATTERN_OFFSETS.findIndex(([x, y]) => x === dx && y === dy)
+
+/**
+ * Authors a new ActionNFTManager template. targetCells is edited on the 3x3
+ * neighbourhood the battle screen decodes, with the target in the middle.
+ */
+export default function ActionTemplateEditor({ onCreated }: ActionTemplateEditorProps) {
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [targetCells, setTargetCells] = useState<number[]>([0])
+  const [damage, setDamage] = useState(1)
+  const [range, setRange] = useState(5)
+  const [uses, setUses] = useState(3)
+  const [category, setCategory] = useState(0)
+  const [minRarity, setMinRarity] = useState(0)
+  const [isSeasonalOnly, setIsSeasonalOnly] = useState(false)
+  const [seasonId, setSeasonId] = useState('0')
+  const [previewRarity, setPreviewRarity] = useState(0)
+
+  const { writeAndWait, isPending, isConfirming, error } = useContractWrite('ActionNFTManager')
+
+  const toggleCell = (offset: number) => {
+    setTargetCells(cells =>
+      cells.includes(offset) ? cells.filter(cell => cell !== offset) : [...cells, offset].sort((a, b) => a - b)
+    )
+  }
+
+  const problems = [
+    !name.trim() && 'Name is required',
+    targetCells.length === 0 && 'Select at least one target cell',
+    targetCells.length > TEMPLATE_LIMITS.maxTargetCells && `At most ${TEMPLATE_LIMITS.maxTargetCells} target cells`,
+    !isWithin(damage, 0, TEMPLATE_LIMITS.maxDamage) && `Damage must be a whole number between 0 and ${TEMPLATE_LIMITS.maxDamage}`,
+    !isWithin(range, 0, TEMPLATE_LIMITS.maxRange) && `Range must be a whole number between 0 and ${TEMPLATE_LIMITS.maxRange}`,
+    !isWithin(uses, 1, TEMPLATE_LIMITS.maxUses) && `Uses must be a whole number between 1 and ${TEMPLATE_LIMITS.maxUses}`,
+    !/^\d+$/.test(seasonId) && 'Season must be a whole number',
+  ].filter((problem): problem is string => !!problem)
+
+  const handleSubmit = async () => {
+    if (problems.length > 0) return
+
+    try {
+      await writeAndWait('addActionTemplate', [
+        name.trim(),
+        description.trim(),
+        targetCells,
+        damage,
+        range,
+        uses,
+        category,
+        minRarity,
+        isSeasonalOnly,
+        BigInt(seasonId),
+      ])
+      setName('')
+      setDescription('')
+      onCreated()
+    } catch (err) {
+      console.error('Failed to add action template:', err)
+    }
+  }
+
+  const svg = actionPlacardSVG({ name, targetCells, damage, range, uses, category }, previewRarity)
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <h2 className="text-xl font-bold text-card-foreground mb-4">New Action Template</h2>
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-card-foreground mb-2">Name</label>
+              <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Cross Strike" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-card-foreground mb-2">Category</label>
+              <select value={category} onChange={(e) => setCategory(Number(e.target.value))} className={inputClass}>
+                <option value={0}>Offensive</option>
+                <option value={1}>Defensive</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-card-foreground mb-2">Description</label>
+            <input value={description} onChange={(e) => setDescription(e.target.value)} className={inputClass} />
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            {/* targetCells */}
+            <div>
+              <label className="block text-sm font-medium text-card-foreground mb-2">Target Cells</label>
+              <div className="inline-grid grid-cols-3 gap-1">
+                {[-1, 0, 1].flatMap(dy => [-1, 0, 1].map(dx => {
+                  const offset = offsetAt(dx, dy)
+                  const isOn = targetCells.includes(offset)
+                  return (
+                    <button
+                      key={`${dx}-${dy}`}
+                      onClick={() => toggleCell(offset)}
+                      className={`w-10 h-10 rounded border text-xs font-mono ${
+                        isOn ? 'bg-orange-400 border-orange-600 text-white' : 'bg-secondary/20 border-border text-card-foreground/60'
+                      } ${offset === 0 ? 'ring-2 ring-accent' : ''}`}
+                      title={offset === 0 ? 'Target' : `Offset ${offset}`}
+                    >
+                      {offset}
+                    </button>
+                  )
+                }))}
+              </div>
+              <div className="mt-2 text-xs text-card-foreground/60 font-mono">[{targetCells.join(', ')}]</div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-card-foreground mb-2">Damage</label>
+                <input type="number" min={0} max={TEMPLATE_LIMITS.maxDamage} step={1} value={damage} onChange={(e) => setDamage(Number(e.target.value))} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-card-foreground mb-2">Range</label>
+                <input type="number" min={0} max={TEMPLATE_LIMITS.maxRange} step={1} value={range} onChange={(e) => setRange(Number(e.target.value))} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-card-foreground mb-2">Uses</label>
+                <input type="number" min={1} max={TEMPLATE_LIMITS.maxUses} step={1} value={uses} onChange={(e) => setUses(Number(e.target.value))} className={inputClass} />
+              </div>
+              <div className="col-span-3">
+                <label className="block text-sm font-medium text-card-foreground mb-2">Minimum Rarity</label>
+                <select value={minRarity} onChange={(e) => setMinRarity(Number(e.target.value))} className={inputClass}>
+                  {RARITIES.map((rarity, index) => (
+                    <option key={rarity} value={index}>{rarity}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-4">
+            <label className="flex items-center space-x-2 text-sm text-card-foreground">
+              <input type="checkbox" checked={isSeasonalOnly} onChange={(e) => setIsSeasonalOnly(e.target.checked)} />
+              <span>Seasonal only</span>
+            </label>
+            <div className="flex items-center space-x-2">
+              <label className="text-sm text-card-foreground">Season</label>
+              <input value={seasonId} onChange={(e) => setSeasonId(e.target.value)} className="w-24 px-3 py-1 border border-border rounded-lg bg-background text-foreground" />
+            </div>
+          </div>
+
+          {problems.length > 0 && (
+            <ul className="text-sm text-orange-600 list-disc list-inside">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+          {hasUnsafeSvgText(name) && (
+            <p className="text-sm text-orange-600">
+              The name contains &lt;, &gt;, &amp; or &quot;, which the contract writes into the placard unescaped
+            </p>
+          )}
+
+          <button
+            onClick={handleSubmit}
+            disabled={problems.length > 0 || isPending || isConfirming}
+            className="flex items-center space-x-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            <span>{isPending ? 'Confirm in wallet...' : isConfirming ? 'Adding...' : 'Add Template'}</span>
+          </button>
+
+          {error && (
+            <div className="p-3 bg-error/10 border border-error/20 rounded-lg">
+              <p className="text-error text-sm">{error.message}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Placard preview */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-card-foreground">Placard Preview</span>
+            <select value={previewRarity} onChange={(e) => setPreviewRarity(Number(e.target.value))} className="px-2 py-1 text-sm border border-border rounded bg-background text-foreground">
+              {RARITIES.map((rarity, index) => (
+                <option key={rarity} value={index}>{rarity}</option>
+              ))}
+            </select>
+          </div>
+          <div className="w-[300px] max-w-full" dangerouslySetInnerHTML={{ __html: svg }} />
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
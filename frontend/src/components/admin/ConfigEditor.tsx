@@ -0,0 +1,289 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle, RotateCcw, Send } from 'lucide-react'
+import { useConfigSubmission } from '@/hooks/useGameConfigAdmin'
+import { SHIP_TYPES } from '@/hooks/useNFTs'
+import {
+  configProblems,
+  formatParameterValue,
+  MAX_FLEET_REQUIREMENT,
+  planConfigUpdates,
+  SCALAR_PARAMETERS,
+  SHIP_STAT_FIELDS,
+  shipTypeName,
+  type ConfigSnapshot,
+  type ConfigUpdate,
+  type ScalarKey,
+  type ShipStats,
+} from '@/lib/gameConfig'
+
+interface ConfigEditorProps {
+  current?: ConfigSnapshot
+  isPaused: boolean
+  pauseReason: string
+  onSubmitted: () => void
+}
+
+const inputClass = 'w-full px-3 py-2 border rounded-lg bg-background text-foreground'
+const cellInputClass = 'w-16 px-2 py-1 border rounded bg-background text-foreground text-sm'
+
+const updateTitle = (update: ConfigUpdate) => {
+  switch (update.kind) {
+    case 'scalar':
+      return `${update.parameter.setter}("${update.parameter.key}")`
+    case 'shipStats':
+      return `updateShipStats(${SHIP_TYPES[update.shipType]})`
+    case 'fleetRequirements':
+      return 'updateFleetRequirements'
+  }
+}
+
+/**
+ * Every catalogued GameConfig parameter with its live value. Edits are staged
+ * locally, reviewed as a diff and then sent as one transaction per update.
+ */
+export default function ConfigEditor({ current, isPaused, pauseReason, onSubmitted }: ConfigEditorProps) {
+  // Unset until the first edit, so the form follows the live values until then
+  const [staged, setStaged] = useState<ConfigSnapshot>()
+  const [isReviewing, setIsReviewing] = useState(false)
+  // The reviewed list, held while it is being sent so progress lines up with it
+  const [sending, setSending] = useState<ConfigUpdate[]>()
+
+  const { submit, progress, isSubmitting, error } = useConfigSubmission(onSubmitted)
+
+  if (!current) {
+    return (
+      <div className="bg-card border border-border rounded-lg p-6">
+        <div className="text-card-foreground/60 text-sm">Loading parameters...</div>
+      </div>
+    )
+  }
+
+  const draft = staged ?? current
+  const updates = sending ?? planConfigUpdates(current, draft)
+  const problems = configProblems(draft)
+  const changeCount = updates.reduce((count, update) => count + update.changes.length, 0)
+
+  const edit = (change: (snapshot: ConfigSnapshot) => ConfigSnapshot) => {
+    setStaged(change(draft))
+    setIsReviewing(false)
+  }
+
+  const setScalar = (key: ScalarKey, value: number) =>
+    edit(snapshot => ({ ...snapshot, scalars: { ...snapshot.scalars, [key]: value } }))
+
+  const setShipStat = (shipType: number, field: keyof ShipStats, value: number) =>
+    edit(snapshot => ({
+      ...snapshot,
+      shipStats: snapshot.shipStats.map((stats, index) => (index === shipType ? { ...stats, [field]: value } : stats)),
+    }))
+
+  const setRequirement = (shipType: number, value: number) =>
+    edit(snapshot => ({
+      ...snapshot,
+      fleetRequirements: snapshot.fleetRequirements.map((count, index) => (index === shipType ? value : count)),
+    }))
+
+  const reset = () => {
+    setStaged(undefined)
+    setIsReviewing(false)
+  }
+
+  const handleSubmit = async () => {
+    if (problems.length > 0 || updates.length === 0) return
+    // On a partial failure the draft stays, and the updates that did land drop
+    // out of the diff once the live values refresh
+    setSending(updates)
+    const isDone = await submit(updates)
+    setSending(undefined)
+    if (isDone) reset()
+  }
+
+  const isChanged = (from: number | undefined, to: number) => from !== to
+  const changedClass = (changed: boolean) => (changed ? 'border-orange-400 ring-1 ring-orange-400' : 'border-border')
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-card-foreground">Game Parameters</h2>
+        <span className="text-sm text-card-foreground/70">
+          {changeCount} staged change{changeCount === 1 ? '' : 's'}
+        </span>
+      </div>
+
+      {isPaused && (
+        <div className="flex items-start space-x-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <AlertTriangle className="h-5 w-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-yellow-800">
+            GameConfig is paused{pauseReason ? ` (${pauseReason})` : ''}. Every update function is whenNotPaused, so
+            submissions will revert until it is unpaused.
+          </p>
+        </div>
+      )}
+
+      {/* Scalars */}
+      <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {SCALAR_PARAMETERS.map(parameter => {
+          const value = draft.scalars[parameter.key]
+          const changed = isChanged(current.scalars[parameter.key], value)
+          return (
+            <div key={parameter.key}>
+              <label className="block text-sm font-medium text-card-foreground mb-2">
+                {parameter.label}
+                <span className="ml-2 text-xs font-normal text-card-foreground/60">
+                  {parameter.min}–{parameter.max}{parameter.unit === 's' || parameter.unit === '%' ? parameter.unit : ''}
+                </span>
+              </label>
+              <input
+                type="number"
+                min={parameter.min}
+                max={parameter.max}
+                value={value}
+                onChange={(e) => setScalar(parameter.key, Number(e.target.value))}
+                className={`${inputClass} ${changedClass(changed)}`}
+              />
+              <div className="mt-1 text-xs text-card-foreground/60">
+                Current: {formatParameterValue(current.scalars[parameter.key], parameter.unit)}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Ship stats and fleet requirements */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-card-foreground/70 border-b border-border">
+              <th className="py-2 pr-4">Ship</th>
+              {SHIP_STAT_FIELDS.map(({ field, label, min, max }) => (
+                <th key={field} className="py-2 pr-4">{label} <span className="font-normal">({min}–{max})</span></th>
+              ))}
+              <th className="py-2">Required <span className="font-normal">(0–{MAX_FLEET_REQUIREMENT})</span></th>
+            </tr>
+          </thead>
+          <tbody>
+            {SHIP_TYPES.map((_, shipType) => (
+              <tr key={shipType} className="border-b border-border/50">
+                <td className="py-2 pr-4 font-medium text-card-foreground">{shipTypeName(shipType)}</td>
+                {SHIP_STAT_FIELDS.map(({ field, min, max }) => {
+                  const value = draft.shipStats[shipType][field]
+                  return (
+                    <td key={field} className="py-2 pr-4">
+                      <input
+                        type="number"
+                        min={min}
+                        max={max}
+                        value={value}
+                        onChange={(e) => setShipStat(shipType, field, Number(e.target.value))}
+                        className={`${cellInputClass} ${changedClass(isChanged(current.shipStats[shipType]?.[field], value))}`}
+                      />
+                    </td>
+                  )
+                })}
+                <td className="py-2">
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_FLEET_REQUIREMENT}
+                    value={draft.fleetRequirements[shipType]}
+                    onChange={(e) => setRequirement(shipType, Number(e.target.value))}
+                    className={`${cellInputClass} ${changedClass(isChanged(current.fleetRequirements[shipType], draft.fleetRequirements[shipType]))}`}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="mt-2 text-xs text-card-foreground/60">
+          Ship stats and fleet requirements are written whole, so changing any field of a row sends that row again.
+        </p>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="text-sm text-orange-600 list-disc list-inside">
+          {problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+
+      <div className="flex items-center space-x-3">
+        <button
+          onClick={() => setIsReviewing(true)}
+          disabled={updates.length === 0 || problems.length > 0 || isSubmitting}
+          className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50"
+        >
+          Review Changes
+        </button>
+        <button
+          onClick={reset}
+          disabled={!staged || isSubmitting}
+          className="flex items-center space-x-2 px-4 py-2 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 disabled:opacity-50"
+        >
+          <RotateCcw className="h-4 w-4" />
+          <span>Discard</span>
+        </button>
+      </div>
+
+      {/* Diff */}
+      {isReviewing && updates.length > 0 && (
+        <div className="border-t border-border pt-6 space-y-4">
+          <h3 className="font-semibold text-card-foreground">
+            Review: {updates.length} transaction{updates.length === 1 ? '' : 's'}
+          </h3>
+          <p className="text-sm text-card-foreground/70">
+            batchUpdateParameters is disabled in GameConfig, so these are sent one after another. If one fails, the
+            ones before it stay applied and the rest are not sent.
+          </p>
+
+          <div className="space-y-3">
+            {updates.map((update, index) => (
+              <div key={updateTitle(update)} className="p-3 bg-secondary/10 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-mono text-xs text-card-foreground/70">
+                    {index + 1}. {updateTitle(update)}
+                  </span>
+                  {progress && progress.current === index + 1 && (
+                    <span className="text-xs px-2 py-1 bg-accent/20 text-accent rounded">Sending...</span>
+                  )}
+                  {progress && progress.current > index + 1 && (
+                    <span className="text-xs px-2 py-1 bg-green-100 text-green-700 rounded">Mined</span>
+                  )}
+                </div>
+                <div className="space-y-1 text-sm">
+                  {update.changes.map(change => (
+                    <div key={change.label} className="flex items-center justify-between">
+                      <span className="text-card-foreground">{change.label}</span>
+                      <span className="font-mono">
+                        <span className="text-red-600 line-through">{change.from}</span>
+                        <span className="mx-2 text-card-foreground/60">→</span>
+                        <span className="text-green-600">{change.to}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting || problems.length > 0}
+            className="flex items-center space-x-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50"
+          >
+            <Send className="h-4 w-4" />
+            <span>
+              {progress ? `Submitting ${progress.current}/${progress.total}...` : `Submit ${updates.length} Transaction${updates.length === 1 ? '' : 's'}`}
+            </span>
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-error/10 border border-error/20 rounded-lg">
+          <p className="text-error text-sm">{error.message}</p>
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
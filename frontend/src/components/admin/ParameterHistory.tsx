@@ -0,0 +1,61 @@
+'use client'
+
+import { History } from 'lucide-react'
+import type { ParameterHistoryEntry } from '@/hooks/useGameConfigAdmin'
+
+interface ParameterHistoryProps {
+  history: ParameterHistoryEntry[]
+  isLoading: boolean
+  error: Error | null
+}
+
+/**
+ * GameConfig's ParameterUpdated log, newest first.
+ */
+export default function ParameterHistory({ history, isLoading, error }: ParameterHistoryProps) {
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <History className="h-5 w-5 text-card-foreground" />
+        <h2 className="text-xl font-bold text-card-foreground">Change History</h2>
+      </div>
+
+      {error && (
+        <div className="p-3 mb-4 bg-error/10 border border-error/20 rounded-lg">
+          <p className="text-error text-sm">{error.message}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-card-foreground/60 text-sm">Loading history...</div>
+      ) : history.length === 0 ? (
+        <p className="text-sm text-card-foreground/60">No parameters have been changed yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-card-foreground/70 border-b border-border">
+                <th className="py-2 pr-4">Block</th>
+                <th className="py-2 pr-4">Parameter</th>
+                <th className="py-2 pr-4">Old</th>
+                <th className="py-2 pr-4">New</th>
+                <th className="py-2">Transaction</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map(entry => (
+                <tr key={`${entry.transactionHash}-${entry.logIndex}`} className="border-b border-border/50">
+                  <td className="py-2 pr-4 font-mono text-card-foreground/70">{entry.blockNumber.toString()}</td>
+                  <td className="py-2 pr-4 text-card-foreground">{entry.label}</td>
+                  <td className="py-2 pr-4 font-mono text-card-foreground/70">{entry.from || '-'}</td>
+                  <td className="py-2 pr-4 font-mono text-card-foreground">{entry.to}</td>
+                  <td className="py-2 font-mono text-xs text-card-foreground/60">{entry.transactionHash.slice(0, 10)}...</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
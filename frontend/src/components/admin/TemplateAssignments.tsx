@@ -0,0 +1,149 @@
+'use client'
+
+import { useState } from 'react'
+import { useContractWrite } from '@/hooks/useContract'
+import { RARITIES } from '@/hooks/useNFTs'
+import type { ActionTemplateSummary, ActionVariantSummary } from '@/hooks/useContentAdmin'
+
+interface TemplateAssignmentsProps {
+  templates: ActionTemplateSummary[]
+  actionVariants: ActionVariantSummary[]
+  isLoading: boolean
+}
+
+const inputClass = 'w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground'
+
+const CATEGORY_NAMES = ['Offensive', 'Defensive']
+
+/**
+ * Lists the templates and sets which of them a variant mints for each
+ * category and rarity. assignTemplatesToVariantRarity replaces the whole
+ * list for that combination rather than appending to it.
+ */
+export default function TemplateAssignments({ templates, actionVariants, isLoading }: TemplateAssignmentsProps) {
+  const [variantId, setVariantId] = useState('0')
+  const [category, setCategory] = useState(0)
+  const [rarity, setRarity] = useState(0)
+  const [selected, setSelected] = useState<number[]>([])
+
+  const { writeAndWait, isPending, isConfirming, isConfirmed, error } = useContractWrite('ActionNFTManager')
+
+  // The contract rejects templates of another category or above this rarity
+  const eligible = templates.filter(t => t.category === category && t.minRarity <= rarity)
+  const chosen = selected.filter(id => eligible.some(t => t.templateId === id))
+
+  const toggle = (templateId: number) => {
+    setSelected(ids => (ids.includes(templateId) ? ids.filter(id => id !== templateId) : [...ids, templateId]))
+  }
+
+  const handleAssign = async () => {
+    try {
+      await writeAndWait('assignTemplatesToVariantRarity', [BigInt(variantId), category, rarity, chosen])
+    } catch (err) {
+      console.error('Failed to assign templates:', err)
+    }
+  }
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-bold text-card-foreground mb-4">Action Templates</h2>
+        {isLoading ? (
+          <div className="text-card-foreground/60 text-sm">Loading templates...</div>
+        ) : templates.length === 0 ? (
+          <div className="text-card-foreground/60 text-sm">No templates yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-card-foreground/60 border-b border-border">
+                  <th className="py-2 pr-4 font-medium">#</th>
+                  <th className="py-2 pr-4 font-medium">Name</th>
+                  <th className="py-2 pr-4 font-medium">Category</th>
+                  <th className="py-2 pr-4 font-medium">Damage</th>
+                  <th className="py-2 pr-4 font-medium">Range</th>
+                  <th className="py-2 pr-4 font-medium">Uses</th>
+                  <th className="py-2 pr-4 font-medium">Min Rarity</th>
+                  <th className="py-2 font-medium">Season</th>
+                </tr>
+              </thead>
+              <tbody>
+                {templates.map(t => (
+                  <tr key={t.templateId} className="border-b border-border/50">
+                    <td className="py-2 pr-4 text-card-foreground/60">{t.templateId}</td>
+                    <td className="py-2 pr-4 text-card-foreground" title={t.description}>
+                      {t.name}{!t.isActive && <span className="text-card-foreground/50"> (inactive)</span>}
+                    </td>
+                    <td className="py-2 pr-4 text-card-foreground">{CATEGORY_NAMES[t.category] ?? t.category}</td>
+                    <td className="py-2 pr-4 text-card-foreground">{t.damage}</td>
+                    <td className="py-2 pr-4 text-card-foreground">{t.range}</td>
+                    <td className="py-2 pr-4 text-card-foreground">{t.uses}</td>
+                    <td className="py-2 pr-4 text-card-foreground">{RARITIES[t.minRarity] ?? t.minRarity}</td>
+                    <td className="py-2 text-card-foreground">{t.isSeasonalOnly ? `#${t.seasonId.toString()} only` : 'Any'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="border-t border-border pt-6">
+        <h3 className="font-semibold text-card-foreground mb-3">Assign to Variant</h3>
+        <div className="grid md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-card-foreground mb-2">Variant</label>
+            <select value={variantId} onChange={(e) => setVariantId(e.target.value)} className={inputClass}>
+              <option value="0">Classic (0)</option>
+              {actionVariants.map(v => (
+                <option key={v.variantId.toString()} value={v.variantId.toString()}>
+                  {v.name} ({v.variantId.toString()})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-card-foreground mb-2">Category</label>
+            <select value={category} onChange={(e) => setCategory(Number(e.target.value))} className={inputClass}>
+              {CATEGORY_NAMES.map((name, index) => <option key={name} value={index}>{name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-card-foreground mb-2">Rarity</label>
+            <select value={rarity} onChange={(e) => setRarity(Number(e.target.value))} className={inputClass}>
+              {RARITIES.map((name, index) => <option key={name} value={index}>{name}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {eligible.length === 0 ? (
+          <p className="text-sm text-card-foreground/60 mb-4">No templates fit this category and rarity</p>
+        ) : (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {eligible.map(t => (
+              <label key={t.templateId} className="flex items-center space-x-2 px-3 py-1 bg-secondary/10 rounded-lg text-sm text-card-foreground">
+                <input type="checkbox" checked={chosen.includes(t.templateId)} onChange={() => toggle(t.templateId)} />
+                <span>#{t.templateId} {t.name}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={handleAssign}
+          disabled={isPending || isConfirming}
+          className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50"
+        >
+          {isPending ? 'Confirm in wallet...' : isConfirming ? 'Assigning...' : chosen.length === 0 ? 'Clear Assignment' : `Assign ${chosen.length} Template${chosen.length !== 1 ? 's' : ''}`}
+        </button>
+        {isConfirmed && <span className="ml-3 text-sm text-green-500">Assignment saved</span>}
+
+        {error && (
+          <div className="mt-4 p-3 bg-error/10 border border-error/20 rounded-lg">
+            <p className="text-error text-sm">{error.message}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
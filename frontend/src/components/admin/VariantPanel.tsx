@@ -0,0 +1,207 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { RARITIES, SHIP_TYPES } from '@/hooks/useNFTs'
+import type { ActionVariantSummary, ShipVariantSummary } from '@/hooks/useContentAdmin'
+import { shipPlacardSVG, shipStatsFor, type VariantStatMods } from '@/lib/placards'
+
+interface VariantPanelProps {
+  shipVariants: ShipVariantSummary[]
+  actionVariants: ActionVariantSummary[]
+  activeShipVariant?: bigint
+  activeActionVariant?: bigint
+  isLoading: boolean
+}
+
+// ShipNFTManager._initializeSVGThemes
+const SVG_THEMES: Record<number, string> = { 1: 'Military', 2: 'Pirate' }
+
+const STAT_MOD_FIELDS: { key: keyof VariantStatMods; label: string }[] = [
+  { key: 'healthMod', label: 'Health' },
+  { key: 'speedMod', label: 'Speed' },
+  { key: 'shieldsMod', label: 'Shields' },
+  { key: 'firepowerMod', label: 'Firepower' },
+  { key: 'rangeMod', label: 'Range' },
+  { key: 'armorMod', label: 'Armor' },
+  { key: 'stealthMod', label: 'Stealth' },
+]
+
+const NO_MODS: VariantStatMods = {
+  healthMod: 0, speedMod: 0, shieldsMod: 0, firepowerMod: 0, rangeMod: 0, armorMod: 0, stealthMod: 0,
+}
+
+const formatMod = (mod: number) => (mod > 0 ? `+${mod}` : `${mod}`)
+
+const variantStatus = (variant: { isActive: boolean; isRetired: boolean }, isCurrent: boolean) =>
+  variant.isRetired ? 'Retired' : isCurrent ? 'Minting' : variant.isActive ? 'Active' : 'Inactive'
+
+/**
+ * Ship and action variants as deployed, plus a draft ship variant whose stat
+ * mods can be previewed on a placard. Neither manager exposes a way to create,
+ * activate or retire variants, so drafts cannot be submitted from here.
+ */
+export default function VariantPanel({
+  shipVariants,
+  actionVariants,
+  activeShipVariant,
+  activeActionVariant,
+  isLoading,
+}: VariantPanelProps) {
+  const [draftName, setDraftName] = useState('New Season')
+  const [draftTheme, setDraftTheme] = useState(1)
+  const [draftMods, setDraftMods] = useState<VariantStatMods>(NO_MODS)
+  const [shipType, setShipType] = useState(0)
+  const [rarity, setRarity] = useState(0)
+
+  const loadVariant = (variant: ShipVariantSummary) => {
+    setDraftName(variant.name)
+    setDraftTheme(variant.svgThemeId)
+    setDraftMods({ ...variant.statMods })
+  }
+
+  // int8 on chain
+  const setMod = (key: keyof VariantStatMods, value: number) =>
+    setDraftMods(mods => ({ ...mods, [key]: Math.max(-128, Math.min(127, Math.trunc(value) || 0)) }))
+
+  const svg = shipPlacardSVG(shipType, rarity, draftName, shipStatsFor(shipType, rarity, draftMods))
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6 space-y-6">
+      <h2 className="text-xl font-bold text-card-foreground">Variants</h2>
+
+      <div className="flex items-start space-x-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+        <AlertTriangle className="h-5 w-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+        <p className="text-sm text-yellow-800">
+          ShipNFTManager and ActionNFTManager only seed variants in their constructors and have no function to
+          create, activate or retire one. Drafts below are previews and cannot be submitted.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="text-card-foreground/60 text-sm">Loading variants...</div>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-6">
+          <div>
+            <h3 className="font-semibold text-card-foreground mb-3">Ship Variants</h3>
+            {shipVariants.length === 0 ? (
+              <p className="text-sm text-card-foreground/60">None</p>
+            ) : (
+              <div className="space-y-2">
+                {shipVariants.map(variant => (
+                  <div key={variant.variantId.toString()} className="p-3 bg-secondary/10 rounded-lg text-sm">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="font-semibold text-card-foreground">
+                        #{variant.variantId.toString()} {variant.name}
+                      </span>
+                      <span className="text-xs px-2 py-1 bg-accent/20 text-accent rounded">
+                        {variantStatus(variant, variant.variantId === activeShipVariant)}
+                      </span>
+                    </div>
+                    <div className="text-xs text-card-foreground/70 mb-2">
+                      Season {variant.seasonId.toString()} · {SVG_THEMES[variant.svgThemeId] ?? `Theme ${variant.svgThemeId}`}
+                      {variant.hasAnimations && ' · animated'}
+                    </div>
+                    <div className="text-xs text-card-foreground/70 mb-2">
+                      {STAT_MOD_FIELDS.filter(({ key }) => variant.statMods[key] !== 0)
+                        .map(({ key, label }) => `${label} ${formatMod(variant.statMods[key])}`)
+                        .join(' · ') || 'No stat mods'}
+                    </div>
+                    <button
+                      onClick={() => loadVariant(variant)}
+                      className="text-xs px-2 py-1 bg-secondary text-secondary-foreground rounded hover:bg-secondary/80"
+                    >
+                      Copy to Draft
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className="font-semibold text-card-foreground mb-3">Action Variants</h3>
+            {actionVariants.length === 0 ? (
+              <p className="text-sm text-card-foreground/60">
+                None. Actions mint from the classic template set (variant 0).
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {actionVariants.map(variant => (
+                  <div key={variant.variantId.toString()} className="p-3 bg-secondary/10 rounded-lg text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-semibold text-card-foreground">
+                        #{variant.variantId.toString()} {variant.name}
+                      </span>
+                      <span className="text-xs px-2 py-1 bg-accent/20 text-accent rounded">
+                        {variantStatus(variant, variant.variantId === activeActionVariant)}
+                      </span>
+                    </div>
+                    <div className="text-xs text-card-foreground/70">Season {variant.seasonId.toString()}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Draft ship variant */}
+      <div className="border-t border-border pt-6 grid lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-4">
+          <h3 className="font-semibold text-card-foreground">Draft Ship Variant</h3>
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-card-foreground mb-2">Name</label>
+              <input
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-card-foreground mb-2">SVG Theme</label>
+              <select
+                value={draftTheme}
+                onChange={(e) => setDraftTheme(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground"
+              >
+                {Object.entries(SVG_THEMES).map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-4 md:grid-cols-7 gap-2">
+            {STAT_MOD_FIELDS.map(({ key, label }) => (
+              <div key={key}>
+                <label className="block text-xs font-medium text-card-foreground mb-1">{label}</label>
+                <input
+                  type="number"
+                  min={-128}
+                  max={127}
+                  value={draftMods[key]}
+                  onChange={(e) => setMod(key, Number(e.target.value))}
+                  className="w-full px-2 py-1 border border-border rounded bg-background text-foreground text-sm"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-card-foreground/60">
+            The placard template does not use the theme colours yet, so the theme does not change the preview.
+          </p>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2 space-x-2">
+            <select value={shipType} onChange={(e) => setShipType(Number(e.target.value))} className="px-2 py-1 text-sm border border-border rounded bg-background text-foreground">
+              {SHIP_TYPES.map((type, index) => <option key={type} value={index}>{type}</option>)}
+            </select>
+            <select value={rarity} onChange={(e) => setRarity(Number(e.target.value))} className="px-2 py-1 text-sm border border-border rounded bg-background text-foreground">
+              {RARITIES.map((name, index) => <option key={name} value={index}>{name}</option>)}
+            </select>
+          </div>
+          <div className="w-[300px] max-w-full" dangerouslySetInnerHTML={{ __html: svg }} />
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+'use client'
+
+import { formatUnits } from 'viem'
+
+export interface ChartSeries {
+  label: string
+  // Tailwind background class for the bar segment and legend swatch
+  color: string
+  values: bigint[]
+}
+
+interface EpochBarChartProps {
+  title: string
+  epochs: number[]
+  series: ChartSeries[]
+  // Series are stacked into one bar per epoch, or drawn side by side
+  stacked?: boolean
+  unit?: string
+  // 18 for token amounts, 0 for plain counts such as credits
+  decimals?: number
+}
+
+export default function EpochBarChart({ title, epochs, series, stacked = false, unit = 'SHIP', decimals = 18 }: EpochBarChartProps) {
+  const toNumber = (value: bigint) => Number(formatUnits(value, decimals))
+  const barTotals = epochs.map((_, index) =>
+    stacked
+      ? series.reduce((sum, s) => sum + toNumber(s.values[index] ?? BigInt(0)), 0)
+      : Math.max(0, ...series.map(s => toNumber(s.values[index] ?? BigInt(0))))
+  )
+  const max = Math.max(0, ...barTotals)
+
+  const height = (value: bigint) => (max > 0 ? (toNumber(value) / max) * 100 : 0)
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-card-foreground">{title}</h3>
+        <div className="flex items-center gap-3 text-xs text-card-foreground/70">
+          {series.map(s => (
+            <span key={s.label} className="flex items-center gap-1">
+              <span className={`inline-block h-2 w-2 rounded-sm ${s.color}`} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {epochs.length === 0 ? (
+        <div className="text-center text-card-foreground/60 py-12">No epochs yet</div>
+      ) : (
+        <div className="flex items-end gap-2 h-48">
+          {epochs.map((epoch, index) => (
+            <div key={epoch} className="flex-1 flex flex-col items-center h-full">
+              <div
+                className={`flex-1 w-full flex ${stacked ? 'flex-col-reverse' : 'items-end gap-0.5'}`}
+                title={series.map(s => `${s.label}: ${toNumber(s.values[index] ?? BigInt(0)).toLocaleString()} ${unit}`).join('\n')}
+              >
+                {series.map(s => (
+                  <div
+                    key={s.label}
+                    className={`${stacked ? 'w-full' : 'flex-1 rounded-t'} ${s.color}`}
+                    style={{ height: `${height(s.values[index] ?? BigInt(0))}%` }}
+                  />
+                ))}
+              </div>
+              <div className="text-xs text-card-foreground/60 mt-1">{epoch}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
@@ -1,489 +1,642 @@
-'use client'
-
-import { useState, useEffect } from 'react'
-import { Target, Zap, Clock, User, SkipForward } from 'lucide-react'
-import { useAccount } from 'wagmi'
-import { useContractRead, useContractWrite } from '@/hooks/useContract'
-
-interface BattleInterfaceProps {
-  gameId: number
-}
-
-type CellState = 'unknown' | 'miss' | 'hit' | 'sunk'
-
-export default function BattleInterface({ gameId }: BattleInterfaceProps) {
-  const { address } = useAccount()
-  const [enemyGrid, setEnemyGrid] = useState<CellState[][]>(
-    Array(10).fill(null).map(() => Array(10).fill('unknown'))
-  )
-  const [selectedCell, setSelectedCell] = useState<{ x: number; y: number } | null>(null)
-  const [gameInfo, setGameInfo] = useState<any>(null)
-  const [turnTimeLeft, setTurnTimeLeft] = useState<number>(0)
-  const [canForceSkip, setCanForceSkip] = useState<boolean>(false)
-  const [availableActions, setAvailableActions] = useState<any[]>([])
-  const [usedActions, setUsedActions] = useState<number[]>([])
-  const [selectedAction, setSelectedAction] = useState<number | null>(null)
-
-  // Get game info
-  const { data: contractGameInfo, refetch: refetchGameInfo } = useContractRead(
-    'GameState',
-    'games',
-    [gameId],
-    { watch: true }
-  )
-
-  // Get game state data
-  const { data: gameStateData } = useContractRead(
-    'GameState',
-    'gameStates',
-    [gameId],
-    { watch: true }
-  )
-
-  // Contract interactions
-  const { writeContract: makeAttack, isPending: isAttacking, error: attackError } = useContractWrite('BattleshipGame')
-  const { writeContract: useAction, isPending: isUsingAction, error: actionError } = useContractWrite('BattleshipGame')
-  const { writeContract: forceSkipTurn, isPending: isSkipping, error: skipError } = useContractWrite('BattleshipGame')
-
-  useEffect(() => {
-    if (contractGameInfo) {
-      setGameInfo(contractGameInfo)
-    }
-  }, [contractGameInfo])
-
-  // Load available actions from localStorage (set during fleet setup)
-  useEffect(() => {
-    const storedFleet = localStorage.getItem(`fleet_${gameId}`)
-    if (storedFleet) {
-      try {
-        const fleetData = JSON.parse(storedFleet)
-        setAvailableActions(fleetData.actions || [])
-      } catch (error) {
-        console.error('Failed to load fleet actions:', error)
-      }
-    }
-  }, [gameId])
-
-  // Turn timer logic
-  useEffect(() => {
-    if (!gameInfo || !address) return
-
-    const TURN_TIMEOUT = 300 // 5 minutes in seconds
-    const now = Math.floor(Date.now() / 1000)
-    const turnStartTime = Number(gameInfo.lastMoveTime || 0)
-    const timeElapsed = now - turnStartTime
-    const timeLeft = Math.max(0, TURN_TIMEOUT - timeElapsed)
-
-    setTurnTimeLeft(timeLeft)
-    setCanForceSkip(timeLeft === 0 && !isMyTurn)
-
-    // Update timer every second
-    const interval = setInterval(() => {
-      const currentTime = Math.floor(Date.now() / 1000)
-      const elapsed = currentTime - turnStartTime
-      const remaining = Math.max(0, TURN_TIMEOUT - elapsed)
-      
-      setTurnTimeLeft(remaining)
-      setCanForceSkip(remaining === 0 && !isMyTurn)
-      
-      if (remaining === 0) {
-        clearInterval(interval)
-      }
-    }, 1000)
-
-    return () => clearInterval(interval)
-  }, [gameInfo, address, isMyTurn])
-
-  const isMyTurn = gameInfo && address && (
-    (gameInfo.currentPlayer === 1 && gameInfo.player1.toLowerCase() === address.toLowerCase()) ||
-    (gameInfo.currentPlayer === 2 && gameInfo.player2.toLowerCase() === address.toLowerCase())
-  )
-
-  const opponent = gameInfo && address ? (
-    gameInfo.player1.toLowerCase() === address.toLowerCase() ? gameInfo.player2 : gameInfo.player1
-  ) : null
-
-  const handleCellClick = (x: number, y: number) => {
-    if (!isMyTurn || isAttacking) return
-    setSelectedCell({ x, y })
-  }
-
-  const handleAttack = async () => {
-    if (!selectedCell || !isMyTurn || isAttacking) return
-
-    try {
-      await makeAttack('defaultAttack', [gameId, selectedCell.x, selectedCell.y])
-      
-      // Update local grid (in production, you'd get this from events)
-      setEnemyGrid(prev => {
-        const newGrid = prev.map(row => [...row])
-        // This would be determined by the contract response/events
-        newGrid[selectedCell.y][selectedCell.x] = 'miss' // Placeholder
-        return newGrid
-      })
-      
-      setSelectedCell(null)
-      refetchGameInfo()
-    } catch (error) {
-      console.error('Attack failed:', error)
-    }
-  }
-
-  const handleForceSkip = async () => {
-    if (!canForceSkip || isSkipping) return
-
-    try {
-      await forceSkipTurn('forceSkipTurn', [gameId])
-      refetchGameInfo()
-    } catch (error) {
-      console.error('Force skip failed:', error)
-    }
-  }
-
-  const formatTime = (seconds: number): string => {
-    const minutes = Math.floor(seconds / 60)
-    const remainingSeconds = seconds % 60
-    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`
-  }
-
-  const handleUseAction = async (actionIndex: number) => {
-    if (!selectedCell || !isMyTurn || isUsingAction || usedActions.includes(actionIndex)) return
-    
-    const action = availableActions[actionIndex]
-    if (!action) return
-
-    try {
-      // Extract action ID from action NFT
-      const actionId = parseInt(action.id.split('_')[1]) || 1
-      
-      await useAction('useActionCard', [
-        gameId,
-        actionId,
-        selectedCell.x,
-        selectedCell.y,
-        0 // Additional parameters if needed
-      ])
-      
-      // Mark action as used
-      setUsedActions(prev => [...prev, actionIndex])
-      setSelectedAction(null)
-      setSelectedCell(null)
-      refetchGameInfo()
-    } catch (error) {
-      console.error('Action usage failed:', error)
-    }
-  }
-
-  const canUseAction = (actionIndex: number): boolean => {
-    return isMyTurn && 
-           !isUsingAction && 
-           !usedActions.includes(actionIndex) && 
-           selectedCell !== null &&
-           usedActions.length < 3 // MAX_ACTIONS_PER_TURN = 3
-  }
-
-  const getCellColor = (x: number, y: number) => {
-    const cell = enemyGrid[y][x]
-    const isSelected = selectedCell?.x === x && selectedCell?.y === y
-    
-    if (isSelected) return 'bg-yellow-300 border-yellow-500'
-    
-    switch (cell) {
-      case 'hit': return 'bg-red-300 border-red-500'
-      case 'miss': return 'bg-gray-300 border-gray-500'
-      case 'sunk': return 'bg-red-500 border-red-700'
-      default: return 'bg-blue-100 hover:bg-blue-200 border-blue-300'
-    }
-  }
-
-  const getCellSymbol = (x: number, y: number) => {
-    const cell = enemyGrid[y][x]
-    switch (cell) {
-      case 'hit': return '💥'
-      case 'miss': return '❌'
-      case 'sunk': return '🔥'
-      default: return ''
-    }
-  }
-
-  if (!gameInfo) {
-    return (
-      <div className="text-center py-12">
-        <div className="animate-spin rounded-full h-12 w-12 border-2 border-primary border-t-transparent mx-auto mb-4"></div>
-        <h3 className="text-xl font-semibold text-foreground mb-2">Loading Battle...</h3>
-        <p className="text-foreground/70">Preparing the battlefield</p>
-      </div>
-    )
-  }
-
-  return (
-    <div className="max-w-6xl mx-auto space-y-8">
-      {/* Game Status */}
-      <div className="bg-card border border-border rounded-lg p-6">
-        <div className="grid md:grid-cols-3 gap-6">
-          <div className="text-center">
-            <div className="flex items-center justify-center space-x-2 mb-2">
-              <User className="h-5 w-5 text-primary" />
-              <span className="font-semibold text-card-foreground">You</span>
-            </div>
-            <div className="text-sm text-card-foreground/70">
-              Ships: {gameStateData ? (gameStateData as any).player1ShipsRemaining || 5 : 5}/5
-            </div>
-          </div>
-          
-          <div className="text-center">
-            <div className="flex items-center justify-center space-x-2 mb-2">
-              <Clock className="h-5 w-5 text-accent" />
-              <span className="font-semibold text-card-foreground">
-                {isMyTurn ? 'Your Turn' : 'Opponent\'s Turn'}
-              </span>
-            </div>
-            <div className="text-sm text-card-foreground/70">
-              Time left: <span className={`font-mono ${turnTimeLeft < 60 ? 'text-red-500' : 'text-accent'}`}>
-                {formatTime(turnTimeLeft)}
-              </span>
-            </div>
-            {canForceSkip && (
-              <button
-                onClick={handleForceSkip}
-                disabled={isSkipping}
-                className="mt-2 px-3 py-1 text-xs bg-red-500 text-white rounded-lg hover:bg-red-600 disabled:opacity-50 transition-colors"
-              >
-                {isSkipping ? 'Skipping...' : 'Force Skip Turn'}
-              </button>
-            )}
-          </div>
-          
-          <div className="text-center">
-            <div className="flex items-center justify-center space-x-2 mb-2">
-              <User className="h-5 w-5 text-secondary" />
-              <span className="font-semibold text-card-foreground">Opponent</span>
-            </div>
-            <div className="text-sm text-card-foreground/70">
-              Ships: {gameStateData ? (gameStateData as any).player2ShipsRemaining || 5 : 5}/5
-            </div>
-            <div className="text-xs text-card-foreground/60 font-mono">
-              {opponent ? `${opponent.slice(0, 6)}...${opponent.slice(-4)}` : 'Unknown'}
-            </div>
-          </div>
-        </div>
-      </div>
-
-      <div className="grid lg:grid-cols-3 gap-8">
-        {/* Enemy Grid - Attack Target */}
-        <div className="lg:col-span-2">
-          <div className="flex items-center justify-between mb-4">
-            <h3 className="text-xl font-bold text-foreground">Enemy Waters</h3>
-            {selectedCell && (
-              <div className="text-sm text-foreground/70">
-                Selected: {String.fromCharCode(65 + selectedCell.x)}{selectedCell.y + 1}
-              </div>
-            )}
-          </div>
-          
-          <div className="inline-block border-2 border-border rounded-lg overflow-hidden">
-            {/* Column headers */}
-            <div className="grid grid-cols-11 bg-secondary">
-              <div className="w-8 h-8"></div>
-              {Array.from({ length: 10 }, (_, i) => (
-                <div key={i} className="w-8 h-8 flex items-center justify-center text-xs font-semibold">
-                  {String.fromCharCode(65 + i)}
-                </div>
-              ))}
-            </div>
-            
-            {/* Grid with row headers */}
-            {Array.from({ length: 10 }, (_, y) => (
-              <div key={y} className="grid grid-cols-11">
-                <div className="w-8 h-8 bg-secondary flex items-center justify-center text-xs font-semibold">
-                  {y + 1}
-                </div>
-                {Array.from({ length: 10 }, (_, x) => (
-                  <button
-                    key={`${x}-${y}`}
-                    className={`w-8 h-8 border border-border text-xs font-bold ${getCellColor(x, y)} transition-all disabled:cursor-not-allowed ${
-                      isMyTurn && !isAttacking ? 'hover:scale-105' : ''
-                    }`}
-                    onClick={() => handleCellClick(x, y)}
-                    disabled={!isMyTurn || isAttacking || enemyGrid[y][x] !== 'unknown'}
-                    title={`${String.fromCharCode(65 + x)}${y + 1}`}
-                  >
-                    {getCellSymbol(x, y)}
-                  </button>
-                ))}
-              </div>
-            ))}
-          </div>
-
-          {/* Attack Controls */}
-          <div className="mt-6 flex items-center justify-between">
-            <div className="text-sm text-foreground/70">
-              {selectedCell 
-                ? `Ready to attack ${String.fromCharCode(65 + selectedCell.x)}${selectedCell.y + 1}`
-                : 'Select a coordinate to attack'
-              }
-            </div>
-            <button
-              onClick={handleAttack}
-              disabled={!selectedCell || !isMyTurn || isAttacking}
-              className="flex items-center space-x-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-semibold"
-            >
-              {isAttacking ? (
-                <>
-                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-foreground border-t-transparent"></div>
-                  <span>Attacking...</span>
-                </>
-              ) : (
-                <>
-                  <Target className="h-4 w-4" />
-                  <span>Fire!</span>
-                </>
-              )}
-            </button>
-          </div>
-
-          {(attackError || actionError) && (
-            <div className="mt-4 p-3 bg-error/10 border border-error/20 rounded-lg">
-              <p className="text-error text-sm">
-                Error: {((attackError || actionError) as Error)?.message || 'Action failed'}
-              </p>
-            </div>
-          )}
-        </div>
-
-        {/* Action Cards */}
-        <div className="space-y-4">
-          <div className="flex items-center justify-between">
-            <h3 className="text-xl font-bold text-foreground">Action Cards</h3>
-            <div className="text-sm text-foreground/70">
-              Used: {usedActions.length}/3 this turn
-            </div>
-          </div>
-          
-          {availableActions.length > 0 ? (
-            <div className="space-y-2">
-              {availableActions.map((action, index) => {
-                const isUsed = usedActions.includes(index)
-                const canUse = canUseAction(index)
-                const isSelected = selectedAction === index
-                
-                return (
-                  <div 
-                    key={index}
-                    className={`p-3 border rounded-lg transition-all ${
-                      isUsed 
-                        ? 'bg-gray-100 border-gray-200 opacity-50' 
-                        : isSelected
-                          ? 'bg-accent/10 border-accent'
-                          : 'bg-card border-border hover:border-accent/50'
-                    }`}
-                  >
-                    <div className="flex items-center justify-between mb-2">
-                      <span className="font-semibold text-card-foreground">{action.name}</span>
-                      <div className="flex items-center space-x-2">
-                        <Zap className="h-4 w-4 text-accent" />
-                        <span className="text-xs px-2 py-1 bg-secondary/20 rounded">
-                          {action.rarity}
-                        </span>
-                      </div>
-                    </div>
-                    
-                    <p className="text-sm text-card-foreground/70 mb-3">
-                      {action.attributes.description || `Damage: ${action.attributes.damage || 50}`}
-                    </p>
-                    
-                    <div className="flex items-center space-x-2">
-                      <button
-                        onClick={() => setSelectedAction(isSelected ? null : index)}
-                        disabled={isUsed || !isMyTurn}
-                        className={`flex-1 px-3 py-2 rounded text-sm font-semibold transition-colors ${
-                          isSelected
-                            ? 'bg-accent text-accent-foreground'
-                            : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
-                        } disabled:opacity-50 disabled:cursor-not-allowed`}
-                      >
-                        {isSelected ? 'Selected' : 'Select'}
-                      </button>
-                      
-                      <button
-                        onClick={() => handleUseAction(index)}
-                        disabled={!canUse || selectedAction !== index}
-                        className="px-4 py-2 bg-primary text-primary-foreground rounded hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-semibold"
-                      >
-                        {isUsed ? 'Used' : isUsingAction ? 'Using...' : 'Use'}
-                      </button>
-                    </div>
-                    
-                    {selectedAction === index && !selectedCell && (
-                      <div className="mt-2 text-xs text-orange-600 bg-orange-50 rounded px-2 py-1">
-                        Select a target coordinate first
-                      </div>
-                    )}
-                  </div>
-                )
-              })}
-            </div>
-          ) : (
-            <div className="text-center py-6 bg-secondary/10 rounded-lg">
-              <Zap className="h-8 w-8 text-secondary/50 mx-auto mb-2" />
-              <p className="text-secondary/70">No action cards equipped</p>
-              <p className="text-xs text-secondary/50">Select actions during fleet setup</p>
-            </div>
-          )}
-          
-          {usedActions.length >= 3 && (
-            <div className="text-center py-2 bg-yellow-50 border border-yellow-200 rounded">
-              <p className="text-yellow-700 text-sm">Maximum actions used this turn</p>
-            </div>
-          )}
-        </div>
-
-          {/* Game Stats */}
-          <div className="bg-card border border-border rounded-lg p-4">
-            <h4 className="font-semibold text-card-foreground mb-3">Battle Stats</h4>
-            <div className="space-y-2 text-sm">
-              <div className="flex justify-between">
-                <span className="text-card-foreground/70">Shots Fired:</span>
-                <span className="text-card-foreground">0</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-card-foreground/70">Hits:</span>
-                <span className="text-card-foreground">0</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-card-foreground/70">Accuracy:</span>
-                <span className="text-card-foreground">0%</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-card-foreground/70">Actions Used:</span>
-                <span className="text-card-foreground">1/10</span>
-              </div>
-            </div>
-          </div>
-        </div>
-      </div>
-
-      {/* Turn Status */}
-      {!isMyTurn && (
-        <div className="bg-secondary/20 border border-secondary rounded-lg p-4 text-center">
-          <div className="flex items-center justify-center space-x-2 mb-2">
-            <div className="animate-pulse w-2 h-2 bg-secondary rounded-full"></div>
-            <span className="text-secondary font-semibold">Waiting for opponent's move...</span>
-          </div>
-          <p className="text-secondary/80 text-sm">
-            Your opponent is planning their attack. Stand by!
-          </p>
-        </div>
-      )}
-
-      {/* Error Messages */}
-      {skipError && (
-        <div className="bg-error/10 border border-error/20 rounded-lg p-4">
-          <p className="text-error text-sm">
-            Error forcing skip: {(skipError as Error)?.message || 'Failed to skip turn'}
-          </p>
-        </div>
-      )}
-    </div>
-  )
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { Target, Zap, Clock, User, SkipForward } from 'lucide-react'
+import { useAccount } from 'wagmi'
+import { useContractRead, useContractWrite } from '@/hooks/useContract'
+import { useBattleEvents, GRID_SIZE, type ChainCellState } from '@/hooks/useBattleEvents'
+import { ACTION_CATEGORIES } from '@/hooks/useNFTs'
+import type { GameInfo } from '@/hooks/useGameState'
+import { useCommittedFleet, useFleetNFTs } from '@/hooks/useFleet'
+import { useTurnTimer, skipsUntilForfeit } from '@/hooks/useTurnTimer'
+import { useActionCards } from '@/hooks/useActionCards'
+import CommandPanel from './CommandPanel'
+import { actionFootprint, cellsInRange, patternOffsets } from '@/lib/actions'
+import { shortAddress } from '@/lib/format'
+
+interface BattleInterfaceProps {
+  gameId: number
+}
+
+export default function BattleInterface({ gameId }: BattleInterfaceProps) {
+  const { address } = useAccount()
+  const [selectedCell, setSelectedCell] = useState<{ x: number; y: number } | null>(null)
+  const [gameInfo, setGameInfo] = useState<GameInfo | null>(null)
+  const [selectedAction, setSelectedAction] = useState<number | null>(null)
+  const [hoveredCell, setHoveredCell] = useState<{ x: number; y: number } | null>(null)
+  // Defensive cards aim at our own board instead of the enemy's
+  const [ownTarget, setOwnTarget] = useState<{ x: number; y: number } | null>(null)
+  const [hoveredOwnCell, setHoveredOwnCell] = useState<{ x: number; y: number } | null>(null)
+  // Captain and crew sent along with the next defaultAttack
+  const [useCaptainAbility, setUseCaptainAbility] = useState(false)
+  const [selectedCrew, setSelectedCrew] = useState<bigint[]>([])
+
+  // Get game info
+  const { data: contractGameInfo, refetch: refetchGameInfo } = useContractRead(
+    'BattleshipGame',
+    'getGameInfo',
+    [BigInt(gameId)],
+    { watch: true }
+  )
+
+  // Contract interactions
+  const { writeContract: makeAttack, isPending: isAttacking, error: attackError } = useContractWrite('BattleshipGame')
+  const { writeContract: forceSkipTurn, isPending: isSkipping, error: skipError } = useContractWrite('BattleshipGame')
+
+  // Per-player action counters; stays at zero while cards cannot be played
+  const { data: gameState } = useContractRead(
+    'BattleshipGame',
+    'getGameState',
+    [BigInt(gameId)],
+    { watch: true }
+  )
+
+  useEffect(() => {
+    if (contractGameInfo) {
+      setGameInfo(contractGameInfo)
+    }
+  }, [contractGameInfo])
+
+  const isMyTurn = !!gameInfo && !!address && (
+    (gameInfo.currentPlayer === 1 && gameInfo.player1.toLowerCase() === address.toLowerCase()) ||
+    (gameInfo.currentPlayer === 2 && gameInfo.player2.toLowerCase() === address.toLowerCase())
+  )
+
+  const opponent = gameInfo && address ? (
+    gameInfo.player1.toLowerCase() === address.toLowerCase() ? gameInfo.player2 : gameInfo.player1
+  ) : null
+
+  // Both boards are rebuilt from contract events, so a reload restores them exactly
+  const {
+    enemyGrid,
+    ownGrid,
+    ownShipsLost,
+    enemyShipsSunk,
+    myStats,
+    lastAttack,
+    defensiveEffects,
+    isBackfilling,
+    error: eventsError,
+  } = useBattleEvents(gameId, address, opponent ?? undefined)
+
+  // Action cards come from the fleet committed with placeShips, so they survive a change of browser
+  const { fleet } = useCommittedFleet(gameId, address)
+  const { actions: availableActions } = useFleetNFTs(fleet)
+  const actionTokenIds = useMemo(() => availableActions.map(action => action.tokenId), [availableActions])
+  const { cards: actionCards } = useActionCards(actionTokenIds)
+
+  const selectedTokenId = selectedAction !== null ? availableActions[selectedAction]?.tokenId : undefined
+  const selectedCard = selectedTokenId !== undefined ? actionCards.get(selectedTokenId) : undefined
+  const isDefensiveCard = !!selectedCard && ACTION_CATEGORIES[selectedCard.pattern.category] === 'DEFENSIVE'
+  const actionTarget = isDefensiveCard ? ownTarget : selectedCell
+
+  // Targets the selected card can reach from the surviving fleet
+  const rangeMask = useMemo(
+    () => (selectedCard ? cellsInRange(ownGrid, selectedCard.pattern.range) : null),
+    [selectedCard, ownGrid]
+  )
+  const isOutOfRange = (x: number, y: number) => !!rangeMask && !rangeMask[y][x]
+  const isEnemyCellOutOfRange = (x: number, y: number) => !isDefensiveCard && isOutOfRange(x, y)
+  const isOwnCellOutOfRange = (x: number, y: number) => isDefensiveCard && isOutOfRange(x, y)
+
+  // The footprint follows the pointer and falls back to the chosen target
+  const aimCell = isDefensiveCard ? hoveredOwnCell ?? ownTarget : hoveredCell ?? selectedCell
+  const footprint = new Set(
+    selectedCard && aimCell
+      ? actionFootprint(selectedCard.pattern, aimCell.x, aimCell.y, GRID_SIZE).map(cell => `${cell.x}-${cell.y}`)
+      : []
+  )
+  const isInFootprint = (x: number, y: number, ownBoard: boolean) =>
+    ownBoard === isDefensiveCard && footprint.has(`${x}-${y}`)
+
+  // Turn clock from GameConfig.getTurnTimer, measured against block time
+  const {
+    timeLeft: turnTimeLeft,
+    isExpired: isTurnExpired,
+    maxSkipTurns,
+    refetch: refetchTimer,
+  } = useTurnTimer(gameId, gameInfo?.lastMoveTime)
+
+  const isPlayer1 = !!gameInfo && !!address && gameInfo.player1.toLowerCase() === address.toLowerCase()
+  const mySkippedTurns = gameInfo ? (isPlayer1 ? gameInfo.player1SkippedTurns : gameInfo.player2SkippedTurns) : 0
+  const opponentSkippedTurns = gameInfo ? (isPlayer1 ? gameInfo.player2SkippedTurns : gameInfo.player1SkippedTurns) : 0
+  const myActionsUsed = gameState ? (isPlayer1 ? gameState.player1ActionsUsed : gameState.player2ActionsUsed) : undefined
+
+  // Only the waiting player has a reason to skip the opponent
+  const canForceSkip = !!gameInfo && gameInfo.status === 1 && !isMyTurn && isTurnExpired
+
+  const handleCellClick = (x: number, y: number) => {
+    if (!isMyTurn || isAttacking || isEnemyCellOutOfRange(x, y)) return
+    setSelectedCell({ x, y })
+  }
+
+  const handleOwnCellClick = (x: number, y: number) => {
+    if (!isMyTurn || !isDefensiveCard || isOwnCellOutOfRange(x, y)) return
+    setOwnTarget({ x, y })
+  }
+
+  const handleAttack = async () => {
+    if (!selectedCell || !isMyTurn || isAttacking) return
+
+    try {
+      // The result shows up on the grid once AttackMade/CellStateChanged are emitted
+      await makeAttack('defaultAttack', [BigInt(gameId), selectedCell.x, selectedCell.y, useCaptainAbility, selectedCrew])
+      
+      setSelectedCell(null)
+      refetchGameInfo()
+    } catch (error) {
+      console.error('Attack failed:', error)
+    }
+  }
+
+  const handleForceSkip = async () => {
+    if (!canForceSkip || isSkipping) return
+
+    try {
+      await forceSkipTurn('forceSkipTurn', [BigInt(gameId)])
+      refetchGameInfo()
+      refetchTimer()
+    } catch (error) {
+      console.error('Force skip failed:', error)
+    }
+  }
+
+  const formatTime = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60)
+    const remainingSeconds = seconds % 60
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`
+  }
+
+  const isLastAttack = (x: number, y: number) =>
+    !!lastAttack && lastAttack.args.x === x && lastAttack.args.y === y
+
+  const getCellColor = (x: number, y: number) => {
+    const cell = enemyGrid[y][x]
+    const isSelected = selectedCell?.x === x && selectedCell?.y === y
+    
+    if (isSelected) return 'bg-yellow-300 border-yellow-500'
+    if (isInFootprint(x, y, false)) return 'bg-orange-300 border-orange-500'
+    if (isEnemyCellOutOfRange(x, y)) return 'bg-gray-200 border-gray-300 opacity-40'
+    
+    switch (cell) {
+      case 'hit': return 'bg-red-300 border-red-500'
+      case 'miss': return 'bg-gray-300 border-gray-500'
+      case 'sunk': return 'bg-red-500 border-red-700'
+      case 'shielded': return 'bg-cyan-300 border-cyan-500'
+      case 'scanning': return 'bg-purple-200 border-purple-400'
+      case 'special': return 'bg-amber-300 border-amber-500'
+      default: return 'bg-blue-100 hover:bg-blue-200 border-blue-300'
+    }
+  }
+
+  const getCellSymbol = (x: number, y: number) => {
+    const cell = enemyGrid[y][x]
+    switch (cell) {
+      case 'hit': return '💥'
+      case 'miss': return '❌'
+      case 'sunk': return '🔥'
+      case 'shielded': return '🛡️'
+      case 'scanning': return '📡'
+      case 'special': return '✨'
+      default: return ''
+    }
+  }
+
+  const getOwnCellColor = (x: number, y: number, state: ChainCellState) => {
+    if (isDefensiveCard && ownTarget?.x === x && ownTarget?.y === y) return 'bg-yellow-300 border-yellow-500'
+    if (isInFootprint(x, y, true)) return 'bg-teal-300 border-teal-500'
+    if (isOwnCellOutOfRange(x, y)) return 'bg-gray-200 border-gray-300 opacity-40'
+
+    switch (state) {
+      case 'SHIP': return 'bg-slate-400 border-slate-500'
+      case 'HIT': return 'bg-red-300 border-red-500'
+      case 'MISS': return 'bg-gray-300 border-gray-500'
+      case 'SUNK': return 'bg-red-500 border-red-700'
+      case 'SHIELDED': return 'bg-cyan-300 border-cyan-500'
+      case 'SCANNING': return 'bg-purple-200 border-purple-400'
+      case 'SPECIAL': return 'bg-amber-300 border-amber-500'
+      default: return 'bg-blue-100 border-blue-300'
+    }
+  }
+
+  const getOwnCellSymbol = (state: ChainCellState) => {
+    switch (state) {
+      case 'HIT': return '💥'
+      case 'MISS': return '•'
+      case 'SUNK': return '🔥'
+      case 'SHIELDED': return '🛡️'
+      case 'SCANNING': return '📡'
+      case 'SPECIAL': return '✨'
+      default: return ''
+    }
+  }
+
+  if (!gameInfo) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-2 border-primary border-t-transparent mx-auto mb-4"></div>
+        <h3 className="text-xl font-semibold text-foreground mb-2">Loading Battle...</h3>
+        <p className="text-foreground/70">Preparing the battlefield</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      {/* Game Status */}
+      <div className="bg-card border border-border rounded-lg p-6">
+        <div className="grid md:grid-cols-3 gap-6">
+          <div className="text-center">
+            <div className="flex items-center justify-center space-x-2 mb-2">
+              <User className="h-5 w-5 text-primary" />
+              <span className="font-semibold text-card-foreground">You</span>
+            </div>
+            <div className="text-sm text-card-foreground/70">
+              Ships: {5 - ownShipsLost}/5
+            </div>
+          </div>
+          
+          <div className="text-center">
+            <div className="flex items-center justify-center space-x-2 mb-2">
+              <Clock className="h-5 w-5 text-accent" />
+              <span className="font-semibold text-card-foreground">
+                {isMyTurn ? 'Your Turn' : 'Opponent\'s Turn'}
+              </span>
+            </div>
+            <div className="text-sm text-card-foreground/70">
+              Time left: <span className={`font-mono ${turnTimeLeft < 60 ? 'text-red-500' : 'text-accent'}`}>
+                {formatTime(turnTimeLeft)}
+              </span>
+            </div>
+            {maxSkipTurns !== undefined && mySkippedTurns > 0 && (
+              <div className={`text-xs mt-1 ${skipsUntilForfeit(mySkippedTurns, maxSkipTurns) === 1 ? 'text-red-500' : 'text-warning'}`}>
+                {mySkippedTurns} turn{mySkippedTurns !== 1 ? 's' : ''} skipped · you forfeit after{' '}
+                {skipsUntilForfeit(mySkippedTurns, maxSkipTurns) === 1
+                  ? 'the next skip'
+                  : `${skipsUntilForfeit(mySkippedTurns, maxSkipTurns)} more skips`}
+              </div>
+            )}
+            {canForceSkip && (
+              <>
+                <button
+                  onClick={handleForceSkip}
+                  disabled={isSkipping}
+                  className="mt-2 px-3 py-1 text-xs bg-red-500 text-white rounded-lg hover:bg-red-600 disabled:opacity-50 transition-colors inline-flex items-center space-x-1"
+                >
+                  <SkipForward className="h-3 w-3" />
+                  <span>{isSkipping ? 'Skipping...' : 'Force Skip Turn'}</span>
+                </button>
+                {maxSkipTurns !== undefined && skipsUntilForfeit(opponentSkippedTurns, maxSkipTurns) === 1 && (
+                  <div className="text-xs mt-1 text-card-foreground/70">Skipping now makes your opponent forfeit</div>
+                )}
+              </>
+            )}
+          </div>
+          
+          <div className="text-center">
+            <div className="flex items-center justify-center space-x-2 mb-2">
+              <User className="h-5 w-5 text-secondary" />
+              <span className="font-semibold text-card-foreground">Opponent</span>
+            </div>
+            <div className="text-sm text-card-foreground/70">
+              Ships: {5 - enemyShipsSunk}/5
+            </div>
+            <div className="text-xs text-card-foreground/60 font-mono">
+              {shortAddress(opponent ?? undefined)}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-8">
+        {/* Enemy Grid - Attack Target */}
+        <div className="lg:col-span-2">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-foreground">Enemy Waters</h3>
+            {isBackfilling && (
+              <div className="text-xs text-foreground/60">Syncing battle history...</div>
+            )}
+            {selectedCell && (
+              <div className="text-sm text-foreground/70">
+                Selected: {String.fromCharCode(65 + selectedCell.x)}{selectedCell.y + 1}
+              </div>
+            )}
+          </div>
+          
+          <div className="inline-block border-2 border-border rounded-lg overflow-hidden">
+            {/* Column headers */}
+            <div className="grid grid-cols-11 bg-secondary">
+              <div className="w-8 h-8"></div>
+              {Array.from({ length: GRID_SIZE }, (_, i) => (
+                <div key={i} className="w-8 h-8 flex items-center justify-center text-xs font-semibold">
+                  {String.fromCharCode(65 + i)}
+                </div>
+              ))}
+            </div>
+            
+            {/* Grid with row headers */}
+            <div onMouseLeave={() => setHoveredCell(null)}>
+              {Array.from({ length: GRID_SIZE }, (_, y) => (
+                <div key={y} className="grid grid-cols-11">
+                  <div className="w-8 h-8 bg-secondary flex items-center justify-center text-xs font-semibold">
+                    {y + 1}
+                  </div>
+                  {Array.from({ length: GRID_SIZE }, (_, x) => (
+                    <button
+                      key={`${x}-${y}`}
+                      className={`w-8 h-8 border border-border text-xs font-bold ${getCellColor(x, y)} transition-all disabled:cursor-not-allowed ${
+                        isMyTurn && !isAttacking ? 'hover:scale-105' : ''
+                      } ${isLastAttack(x, y) ? 'ring-2 ring-accent' : ''}`}
+                      onClick={() => handleCellClick(x, y)}
+                      onMouseEnter={() => setHoveredCell({ x, y })}
+                      disabled={!isMyTurn || isAttacking || enemyGrid[y][x] !== 'unknown' || isEnemyCellOutOfRange(x, y)}
+                      title={`${String.fromCharCode(65 + x)}${y + 1}`}
+                    >
+                      {getCellSymbol(x, y)}
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {selectedCard && !isDefensiveCard && (
+            <div className="mt-2 text-xs text-foreground/60">
+              Orange cells show the selected card&apos;s footprint · greyed cells are beyond its range of {selectedCard.pattern.range}
+            </div>
+          )}
+
+          {/* Attack Controls */}
+          <div className="mt-6 flex items-center justify-between">
+            <div className="text-sm text-foreground/70">
+              {selectedCell 
+                ? `Ready to attack ${String.fromCharCode(65 + selectedCell.x)}${selectedCell.y + 1}`
+                : 'Select a coordinate to attack'
+              }
+            </div>
+            <button
+              onClick={handleAttack}
+              disabled={!selectedCell || !isMyTurn || isAttacking}
+              className="flex items-center space-x-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-semibold"
+            >
+              {isAttacking ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-foreground border-t-transparent"></div>
+                  <span>Attacking...</span>
+                </>
+              ) : (
+                <>
+                  <Target className="h-4 w-4" />
+                  <span>Fire!</span>
+                </>
+              )}
+            </button>
+          </div>
+
+          {attackError && (
+            <div className="mt-4 p-3 bg-error/10 border border-error/20 rounded-lg">
+              <p className="text-error text-sm">
+                Error: {attackError.message || 'Attack failed'}
+              </p>
+            </div>
+          )}
+
+          {eventsError && (
+            <div className="mt-4 p-3 bg-error/10 border border-error/20 rounded-lg">
+              <p className="text-error text-sm">
+                Failed to load battle history: {eventsError.message}
+              </p>
+            </div>
+          )}
+
+          {/* Own Grid - Where the opponent is shooting */}
+          <div className="mt-8">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold text-foreground">Your Waters</h3>
+              {isDefensiveCard && ownTarget && (
+                <div className="text-sm text-foreground/70">
+                  Defending: {String.fromCharCode(65 + ownTarget.x)}{ownTarget.y + 1}
+                </div>
+              )}
+            </div>
+            <div
+              className="inline-block border-2 border-border rounded-lg overflow-hidden"
+              onMouseLeave={() => setHoveredOwnCell(null)}
+            >
+              {ownGrid.map((row, y) => (
+                <div key={y} className="flex">
+                  {row.map((state, x) => (
+                    <button
+                      key={`${x}-${y}`}
+                      className={`w-6 h-6 border border-border text-[10px] flex items-center justify-center ${getOwnCellColor(x, y, state)} disabled:cursor-default`}
+                      onClick={() => handleOwnCellClick(x, y)}
+                      onMouseEnter={() => setHoveredOwnCell({ x, y })}
+                      disabled={!isMyTurn || !isDefensiveCard || isOwnCellOutOfRange(x, y)}
+                      title={`${String.fromCharCode(65 + x)}${y + 1}`}
+                    >
+                      {getOwnCellSymbol(state)}
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+            {isDefensiveCard && selectedCard && (
+              <div className="mt-2 text-xs text-foreground/60">
+                Defensive card: pick a cell on your own board · greyed cells are beyond its range of {selectedCard.pattern.range}
+              </div>
+            )}
+          </div>
+
+          {/* Effects of defensive actions, from the same CellStateChanged logs as attacks */}
+          <div className="mt-6 bg-card border border-border rounded-lg p-4">
+            <h4 className="font-semibold text-card-foreground mb-3">Defensive Effects</h4>
+            {defensiveEffects.length === 0 ? (
+              <p className="text-sm text-card-foreground/60">No shields, scans or special effects yet</p>
+            ) : (
+              <div className="space-y-2 max-h-48 overflow-y-auto text-sm">
+                {[...defensiveEffects].reverse().map(effect => (
+                  <div key={`${effect.transactionHash}-${effect.player}`} className="bg-secondary/10 rounded px-3 py-2">
+                    <div className="flex justify-between text-xs text-card-foreground/60 mb-1">
+                      <span>{effect.player.toLowerCase() === address?.toLowerCase() ? 'Your board' : 'Enemy board'}</span>
+                      <span>Block {effect.blockNumber.toString()}</span>
+                    </div>
+                    <div className="text-card-foreground">
+                      {effect.cells
+                        .map(cell => `${String.fromCharCode(65 + cell.x)}${cell.y + 1} ${cell.from} → ${cell.to}`)
+                        .join(', ')}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Action Cards */}
+        <div className="space-y-4">
+          <CommandPanel
+            gameId={gameId}
+            fleet={fleet}
+            player={address}
+            useCaptain={useCaptainAbility}
+            onUseCaptainChange={setUseCaptainAbility}
+            selectedCrew={selectedCrew}
+            onSelectedCrewChange={setSelectedCrew}
+            disabled={!isMyTurn || isAttacking}
+          />
+
+          <div>
+            <h3 className="text-xl font-bold text-foreground">Action Cards</h3>
+            {availableActions.length > 0 && (
+              <p className="mt-1 text-xs text-foreground/60">
+                BattleshipGame has no entrypoint for playing action cards yet, so they can be aimed to preview their
+                footprint but not used.
+              </p>
+            )}
+          </div>
+          
+          {availableActions.length > 0 ? (
+            <div className="space-y-2">
+              {availableActions.map((action, index) => {
+                const card = actionCards.get(action.tokenId)
+                const isUsed = card?.usesRemaining === BigInt(0)
+                const isSelected = selectedAction === index
+                
+                return (
+                  <div 
+                    key={action.tokenId.toString()}
+                    className={`p-3 border rounded-lg transition-all ${
+                      isUsed 
+                        ? 'bg-gray-100 border-gray-200 opacity-50' 
+                        : isSelected
+                          ? 'bg-accent/10 border-accent'
+                          : 'bg-card border-border hover:border-accent/50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="font-semibold text-card-foreground">{action.name}</span>
+                      <div className="flex items-center space-x-2">
+                        <Zap className="h-4 w-4 text-accent" />
+                        <span className="text-xs px-2 py-1 bg-secondary/20 rounded">
+                          {action.rarity}
+                        </span>
+                      </div>
+                    </div>
+                    
+                    {action.attributes.description && (
+                      <p className="text-sm text-card-foreground/70 mb-2">{action.attributes.description}</p>
+                    )}
+
+                    <div className="flex items-center justify-between mb-3">
+                      <div className="grid grid-cols-2 gap-x-4 text-xs text-card-foreground/70">
+                        <span>Damage: {card?.pattern.damage ?? '...'}</span>
+                        <span>Range: {card?.pattern.range ?? '...'}</span>
+                        <span>Cells: {card ? patternOffsets(card.pattern).length : '...'}</span>
+                        <span>Uses left: {card?.usesRemaining.toString() ?? '...'}</span>
+                      </div>
+                      {/* Footprint around the target, which sits in the middle */}
+                      {card && (
+                        <div className="grid grid-cols-3 gap-px">
+                          {Array.from({ length: 9 }, (_, i) => {
+                            const dx = (i % 3) - 1
+                            const dy = Math.floor(i / 3) - 1
+                            const hit = patternOffsets(card.pattern).some(offset => offset.x === dx && offset.y === dy)
+                            return <div key={i} className={`w-2 h-2 rounded-sm ${hit ? 'bg-orange-400' : 'bg-secondary/30'}`} />
+                          })}
+                        </div>
+                      )}
+                    </div>
+                    
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => setSelectedAction(isSelected ? null : index)}
+                        disabled={isUsed || !isMyTurn}
+                        className={`flex-1 px-3 py-2 rounded text-sm font-semibold transition-colors ${
+                          isSelected
+                            ? 'bg-accent text-accent-foreground'
+                            : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                        } disabled:opacity-50 disabled:cursor-not-allowed`}
+                      >
+                        {isSelected ? 'Selected' : 'Select'}
+                      </button>
+                      
+                      <button
+                        disabled
+                        title="BattleshipGame does not expose an action entrypoint"
+                        className="px-4 py-2 bg-primary text-primary-foreground rounded disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-semibold"
+                      >
+                        {isUsed ? 'Used' : 'Use'}
+                      </button>
+                    </div>
+                    
+                    {selectedAction === index && !actionTarget && (
+                      <div className="mt-2 text-xs text-orange-600 bg-orange-50 rounded px-2 py-1">
+                        {isDefensiveCard ? 'Select a cell on your own board first' : 'Select a target coordinate first'}
+                      </div>
+                    )}
+                    {selectedAction === index && actionTarget && isOutOfRange(actionTarget.x, actionTarget.y) && (
+                      <div className="mt-2 text-xs text-orange-600 bg-orange-50 rounded px-2 py-1">
+                        Target is out of range for this card
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          ) : (
+            <div className="text-center py-6 bg-secondary/10 rounded-lg">
+              <Zap className="h-8 w-8 text-secondary/50 mx-auto mb-2" />
+              <p className="text-secondary/70">No action cards equipped</p>
+              <p className="text-xs text-secondary/50">Actions are chosen during fleet setup</p>
+            </div>
+          )}
+          
+          {/* Game Stats */}
+          <div className="bg-card border border-border rounded-lg p-4">
+            <h4 className="font-semibold text-card-foreground mb-3">Battle Stats</h4>
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-card-foreground/70">Shots Fired:</span>
+                <span className="text-card-foreground">{myStats.shotsFired}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-card-foreground/70">Hits:</span>
+                <span className="text-card-foreground">{myStats.hits}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-card-foreground/70">Accuracy:</span>
+                <span className="text-card-foreground">{myStats.accuracy}%</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-card-foreground/70">Actions Used:</span>
+                <span className="text-card-foreground">{myActionsUsed?.toString() ?? '...'}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Turn Status */}
+      {!isMyTurn && (
+        <div className="bg-secondary/20 border border-secondary rounded-lg p-4 text-center">
+          <div className="flex items-center justify-center space-x-2 mb-2">
+            <div className="animate-pulse w-2 h-2 bg-secondary rounded-full"></div>
+            <span className="text-secondary font-semibold">Waiting for opponent's move...</span>
+          </div>
+          <p className="text-secondary/80 text-sm">
+            Your opponent is planning their attack. Stand by!
+          </p>
+        </div>
+      )}
+
+      {/* Error Messages */}
+      {skipError && (
+        <div className="bg-error/10 border border-error/20 rounded-lg p-4">
+          <p className="text-error text-sm">
+            Error forcing skip: {skipError?.message || 'Failed to skip turn'}
+          </p>
+        </div>
+      )}
+    </div>
+  )
 }
\ No newline at end of file
@@ -0,0 +1,177 @@
+'use client'
+
+import { Shield, Users } from 'lucide-react'
+import { useFleetAbilities } from '@/hooks/useFleetAbilities'
+import { CAPTAIN_ABILITIES, CREW_TYPES } from '@/hooks/useNFTs'
+import type { CommittedFleet } from '@/hooks/useFleet'
+import { attackDamage, captainBonus, crewBonus, MAX_CREW_PER_ATTACK } from '@/lib/bonuses'
+
+interface CommandPanelProps {
+  gameId: number
+  fleet?: CommittedFleet
+  player?: `0x${string}`
+  useCaptain: boolean
+  onUseCaptainChange: (useCaptain: boolean) => void
+  selectedCrew: bigint[]
+  onSelectedCrewChange: (crewIds: bigint[]) => void
+  disabled: boolean
+}
+
+const titleCase = (value: string) =>
+  value.split('_').map(word => word.charAt(0) + word.slice(1).toLowerCase()).join(' ')
+
+const formatLastUsed = (lastUsed: bigint) =>
+  lastUsed > BigInt(0) ? new Date(Number(lastUsed) * 1000).toLocaleString() : 'Never'
+
+/**
+ * Captain and crew for the next attack. Their abilities are applied by
+ * GameLogic inside defaultAttack, so arming them here only changes the
+ * useCaptainAbility and crewIds arguments of the next shot.
+ */
+export default function CommandPanel({
+  gameId,
+  fleet,
+  player,
+  useCaptain,
+  onUseCaptainChange,
+  selectedCrew,
+  onSelectedCrewChange,
+  disabled,
+}: CommandPanelProps) {
+  const { baseDamage, captain, captainId, captainTimesUsed, crew, isLoading } = useFleetAbilities(gameId, fleet, player)
+
+  const assignedCrew = selectedCrew
+    .map(tokenId => crew.find(member => member.tokenId === tokenId))
+    .filter((member): member is typeof crew[number] => !!member)
+  const damage = baseDamage !== undefined ? attackDamage(baseDamage, captain, useCaptain, assignedCrew) : undefined
+  const crewTotal = damage ? damage.crew.reduce((sum, part) => sum + part.bonus, 0) : 0
+
+  const toggleCrew = (tokenId: bigint) => {
+    onSelectedCrewChange(
+      selectedCrew.includes(tokenId)
+        ? selectedCrew.filter(id => id !== tokenId)
+        : [...selectedCrew, tokenId]
+    )
+  }
+
+  if (!fleet) return null
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-4 space-y-4">
+      <h3 className="text-xl font-bold text-card-foreground">Captain &amp; Crew</h3>
+
+      {/* Captain */}
+      {captainId === undefined ? (
+        <p className="text-sm text-card-foreground/60">No captain in this fleet</p>
+      ) : !captain ? (
+        <p className="text-sm text-card-foreground/60">{isLoading ? 'Loading captain...' : 'Captain unavailable'}</p>
+      ) : (
+        <div className="p-3 border border-border rounded-lg">
+          <div className="flex items-center justify-between mb-1">
+            <div className="flex items-center space-x-2">
+              <Shield className="h-4 w-4 text-accent" />
+              <span className="font-semibold text-card-foreground">{captain.name || `Captain #${captainId}`}</span>
+            </div>
+            <span className="text-xs text-card-foreground/60">Used {captainTimesUsed}×</span>
+          </div>
+          <div className="text-sm text-card-foreground/70 mb-2">
+            {titleCase(CAPTAIN_ABILITIES[captain.ability] ?? 'UNKNOWN')} · power {captain.abilityPower}
+            {baseDamage !== undefined && ` · +${captainBonus(captain, baseDamage)} damage`}
+          </div>
+          <button
+            onClick={() => onUseCaptainChange(!useCaptain)}
+            disabled={disabled}
+            className={`w-full px-3 py-2 rounded text-sm font-semibold transition-colors ${
+              useCaptain
+                ? 'bg-accent text-accent-foreground'
+                : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+            } disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            {useCaptain ? 'Ability Armed' : 'Arm Ability'}
+          </button>
+        </div>
+      )}
+
+      {/* Crew */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <div className="flex items-center space-x-2 text-card-foreground">
+            <Users className="h-4 w-4 text-accent" />
+            <span className="font-semibold">Crew</span>
+          </div>
+          <span className="text-card-foreground/60">{selectedCrew.length}/{MAX_CREW_PER_ATTACK} assigned</span>
+        </div>
+
+        {fleet.crewIds.length === 0 ? (
+          <p className="text-sm text-card-foreground/60">No crew in this fleet</p>
+        ) : crew.length === 0 ? (
+          <p className="text-sm text-card-foreground/60">{isLoading ? 'Loading crew...' : 'Crew unavailable'}</p>
+        ) : (
+          crew.map(member => {
+            const crewType = CREW_TYPES[member.info.crewType] ?? 'UNKNOWN'
+            const isAssigned = selectedCrew.includes(member.tokenId)
+            const isFull = !isAssigned && selectedCrew.length >= MAX_CREW_PER_ATTACK
+            const staminaPercent = member.info.maxStamina > 0 ? (member.stamina / member.info.maxStamina) * 100 : 0
+
+            return (
+              <div key={member.tokenId.toString()} className="p-3 border border-border rounded-lg">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-semibold text-card-foreground text-sm">
+                    {member.info.name || `${titleCase(crewType)} #${member.tokenId}`}
+                  </span>
+                  <span className={`text-xs ${member.canUse ? 'text-green-500' : 'text-red-500'}`}>
+                    {member.canUse ? 'Ready' : 'Exhausted'}
+                  </span>
+                </div>
+                <div className="text-xs text-card-foreground/70 mb-2">
+                  {titleCase(crewType)} · +{crewBonus(member.info)} damage · used {member.timesUsed}× · last {formatLastUsed(member.info.lastUsed)}
+                </div>
+                <div className="flex items-center space-x-2 mb-2">
+                  <div className="flex-1 h-2 bg-secondary/20 rounded-full overflow-hidden">
+                    <div className="h-full bg-accent" style={{ width: `${staminaPercent}%` }}></div>
+                  </div>
+                  <span className="text-xs text-card-foreground/70 font-mono">
+                    {member.stamina}/{member.info.maxStamina}
+                  </span>
+                </div>
+                <button
+                  onClick={() => toggleCrew(member.tokenId)}
+                  disabled={disabled || (!isAssigned && (!member.canUse || isFull))}
+                  className={`w-full px-3 py-1 rounded text-xs font-semibold transition-colors ${
+                    isAssigned
+                      ? 'bg-accent text-accent-foreground'
+                      : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                  } disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                  {isAssigned ? 'Assigned to Next Shot' : 'Assign to Next Shot'}
+                </button>
+              </div>
+            )
+          })
+        )}
+      </div>
+
+      {/* Damage readout */}
+      {damage && (
+        <div className="border-t border-border pt-3 text-sm space-y-1">
+          <div className="flex justify-between">
+            <span className="text-card-foreground/70">Base damage</span>
+            <span className="text-card-foreground">{damage.base}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-card-foreground/70">Captain bonus</span>
+            <span className="text-card-foreground">+{damage.captain}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-card-foreground/70">Crew bonus</span>
+            <span className="text-card-foreground">+{crewTotal}</span>
+          </div>
+          <div className="flex justify-between font-semibold">
+            <span className="text-card-foreground">Next shot</span>
+            <span className="text-accent">{damage.total} damage</span>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
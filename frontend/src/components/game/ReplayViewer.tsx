@@ -0,0 +1,336 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { useChainId } from 'wagmi'
+import { ChevronLeft, ChevronRight, Download, Link2, Pause, Play, SkipBack, SkipForward, Trophy } from 'lucide-react'
+import { useBattleReplay } from '@/hooks/useBattleReplay'
+import type { ChainCellState } from '@/hooks/useBattleEvents'
+import { isAddressEqual } from 'viem'
+import { boardsAt, replayToJson, type ReplayBoard, type ReplayStep } from '@/lib/replay'
+import { shortAddress } from '@/lib/format'
+
+const SPEEDS = [
+  { label: '0.5x', delayMs: 2000 },
+  { label: '1x', delayMs: 1000 },
+  { label: '2x', delayMs: 500 },
+]
+
+const cellName = (x: number, y: number) => `${String.fromCharCode(65 + x)}${y + 1}`
+
+const getCellColor = (state: ChainCellState) => {
+  switch (state) {
+    case 'SHIP': return 'bg-slate-400 border-slate-500'
+    case 'HIT': return 'bg-red-300 border-red-500'
+    case 'MISS': return 'bg-gray-300 border-gray-500'
+    case 'SUNK': return 'bg-red-500 border-red-700'
+    case 'SHIELDED': return 'bg-cyan-300 border-cyan-500'
+    case 'SCANNING': return 'bg-purple-200 border-purple-400'
+    case 'SPECIAL': return 'bg-amber-300 border-amber-500'
+    default: return 'bg-blue-100 border-blue-300'
+  }
+}
+
+const getCellSymbol = (state: ChainCellState) => {
+  switch (state) {
+    case 'HIT': return '💥'
+    case 'MISS': return '•'
+    case 'SUNK': return '🔥'
+    case 'SHIELDED': return '🛡️'
+    case 'SCANNING': return '📡'
+    case 'SPECIAL': return '✨'
+    default: return ''
+  }
+}
+
+function describeStep(step: ReplayStep, index: number): string[] {
+  if (index === 0) return ['Both fleets deployed']
+
+  const lines: string[] = []
+  const actor = shortAddress(step.actor)
+  if (step.captainAbility !== undefined) lines.push(`${actor} used captain #${step.captainAbility.toString()}'s ability`)
+  step.crewAbilities.forEach(crewId => lines.push(`${actor} used crew #${crewId.toString()}'s ability`))
+  step.actions.forEach(action =>
+    lines.push(`${actor} used action #${action.tokenId.toString()} (${action.usesRemaining.toString()} uses left)`)
+  )
+  if (step.attack) {
+    lines.push(`${actor} fired at ${cellName(step.attack.x, step.attack.y)}: ${step.attack.hit ? 'hit' : 'miss'}`)
+  }
+  step.shipsDestroyed.forEach(ship => lines.push(`${shortAddress(ship.player)} lost ship ${ship.shipIndex + 1}`))
+  if (step.ended) lines.push(`Game over, ${shortAddress(step.ended.winner)} wins`)
+  return lines.length > 0 ? lines : ['Board updated']
+}
+
+interface BoardProps {
+  title: string
+  board: ReplayBoard
+  // Cell targeted in the current step, if it was fired at this board
+  target?: { x: number; y: number }
+}
+
+function Board({ title, board, target }: BoardProps) {
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-card-foreground mb-3">{title}</h3>
+      <div className="inline-block border-2 border-border rounded-lg overflow-hidden">
+        {board.map((row, y) => (
+          <div key={y} className="flex">
+            {row.map((state, x) => (
+              <div
+                key={`${x}-${y}`}
+                className={`w-7 h-7 border text-[10px] flex items-center justify-center ${getCellColor(state)} ${
+                  target?.x === x && target?.y === y ? 'ring-2 ring-yellow-400 ring-inset' : ''
+                }`}
+                title={cellName(x, y)}
+              >
+                {getCellSymbol(state)}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface ReplayViewerProps {
+  gameId: bigint
+}
+
+export default function ReplayViewer({ gameId }: ReplayViewerProps) {
+  const chainId = useChainId()
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const { replay, isCompleted, isLoading, isSyncing, error } = useBattleReplay(gameId)
+
+  // ?step= makes a shared link open on the same turn
+  const [stepIndex, setStepIndex] = useState(() => Math.max(0, parseInt(searchParams.get('step') ?? '') || 0))
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+  const [copied, setCopied] = useState(false)
+
+  const lastStep = replay ? replay.steps.length - 1 : 0
+  const current = Math.min(stepIndex, lastStep)
+  const step = replay?.steps[current]
+
+  const boards = useMemo(() => (replay ? boardsAt(replay, current) : null), [replay, current])
+
+  useEffect(() => {
+    if (!isPlaying) return
+    if (current >= lastStep) {
+      setIsPlaying(false)
+      return
+    }
+    const timer = setTimeout(() => setStepIndex(current + 1), SPEEDS[speed].delayMs)
+    return () => clearTimeout(timer)
+  }, [isPlaying, current, lastStep, speed])
+
+  useEffect(() => {
+    if (!replay) return
+    router.replace(`${pathname}?step=${current}`, { scroll: false })
+  }, [replay, current, pathname, router])
+
+  const goTo = (index: number) => {
+    setIsPlaying(false)
+    setStepIndex(Math.max(0, Math.min(index, lastStep)))
+  }
+
+  const togglePlay = () => {
+    if (!isPlaying && current >= lastStep) setStepIndex(0)
+    setIsPlaying(!isPlaying)
+  }
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      console.error('Failed to copy replay link:', err)
+    }
+  }
+
+  const exportJson = () => {
+    if (!replay) return
+    const blob = new Blob([replayToJson(replay, { chainId, gameId: gameId.toString() })], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `battleship-game-${gameId.toString()}-replay.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  if (isLoading && !replay) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-2 border-primary border-t-transparent mx-auto mb-4"></div>
+        <h3 className="text-xl font-semibold text-foreground mb-2">Loading Replay...</h3>
+        <p className="text-foreground/70">Indexing the game&apos;s events</p>
+      </div>
+    )
+  }
+
+  if (!isCompleted) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-6xl mb-4">⏳</div>
+        <h3 className="text-xl font-semibold text-foreground mb-2">No Replay Yet</h3>
+        <p className="text-foreground/70">Replays are available once a game has been completed.</p>
+      </div>
+    )
+  }
+
+  if (!replay || !boards || !step) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-6xl mb-4">🌊</div>
+        <h3 className="text-xl font-semibold text-foreground mb-2">No Events Found</h3>
+        <p className="text-foreground/70">
+          {error ? `Failed to load events: ${error.message}` : isSyncing ? 'Still indexing, this can take a moment.' : 'This game left no events to replay.'}
+        </p>
+      </div>
+    )
+  }
+
+  // Shots land on the board of whoever did not act
+  const target = step.attack
+  const targetsPlayer1 = !!target && !!step.actor && isAddressEqual(step.actor, replay.player2)
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      {/* Result */}
+      <div className="bg-card border border-border rounded-lg p-6">
+        <div className="grid md:grid-cols-2 gap-6">
+          {[replay.player1, replay.player2].map((player, index) => {
+            const credits = index === 0 ? replay.credits.player1 : replay.credits.player2
+            const isWinner = !!replay.winner && isAddressEqual(player, replay.winner)
+            return (
+              <div key={player} className="text-center">
+                <div className="flex items-center justify-center space-x-2 mb-1">
+                  {isWinner && <Trophy className="h-5 w-5 text-yellow-500" />}
+                  <span className="font-semibold text-card-foreground font-mono">{shortAddress(player)}</span>
+                </div>
+                <div className="text-sm text-card-foreground/70">
+                  {isWinner ? 'Winner' : 'Defeated'} · Credits: {credits !== undefined ? credits.toString() : 'none recorded'}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      {/* Boards */}
+      <div className="bg-card border border-border rounded-lg p-6">
+        <div className="grid md:grid-cols-2 gap-8 justify-items-center">
+          <Board
+            title={`${shortAddress(replay.player1)}'s waters`}
+            board={boards.player1}
+            target={targetsPlayer1 ? target : undefined}
+          />
+          <Board
+            title={`${shortAddress(replay.player2)}'s waters`}
+            board={boards.player2}
+            target={target && !targetsPlayer1 ? target : undefined}
+          />
+        </div>
+
+        <div className="mt-6 p-4 bg-secondary/10 rounded-lg min-h-[4rem]">
+          <div className="text-xs text-card-foreground/60 mb-1">
+            Step {current} of {lastStep}
+            {step.transactionHash && <span className="font-mono"> · {step.transactionHash.slice(0, 10)}...</span>}
+          </div>
+          {describeStep(step, current).map(line => (
+            <div key={line} className="text-sm text-card-foreground">{line}</div>
+          ))}
+        </div>
+
+        {/* Controls */}
+        <div className="mt-6 space-y-4">
+          <input
+            type="range"
+            min={0}
+            max={lastStep}
+            value={current}
+            onChange={(e) => goTo(parseInt(e.target.value))}
+            className="w-full accent-primary"
+          />
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <button onClick={() => goTo(0)} className="p-2 border border-border rounded-lg hover:border-primary/50 transition-colors" title="First step">
+                <SkipBack className="h-4 w-4" />
+              </button>
+              <button onClick={() => goTo(current - 1)} className="p-2 border border-border rounded-lg hover:border-primary/50 transition-colors" title="Previous step">
+                <ChevronLeft className="h-4 w-4" />
+              </button>
+              <button
+                onClick={togglePlay}
+                className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors inline-flex items-center space-x-2"
+              >
+                {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                <span>{isPlaying ? 'Pause' : 'Play'}</span>
+              </button>
+              <button onClick={() => goTo(current + 1)} className="p-2 border border-border rounded-lg hover:border-primary/50 transition-colors" title="Next step">
+                <ChevronRight className="h-4 w-4" />
+              </button>
+              <button onClick={() => goTo(lastStep)} className="p-2 border border-border rounded-lg hover:border-primary/50 transition-colors" title="Last step">
+                <SkipForward className="h-4 w-4" />
+              </button>
+              <div className="flex space-x-1 ml-2">
+                {SPEEDS.map((option, index) => (
+                  <button
+                    key={option.label}
+                    onClick={() => setSpeed(index)}
+                    className={`px-2 py-1 border rounded-lg text-xs transition-colors ${
+                      speed === index
+                        ? 'border-primary bg-primary/10 text-primary'
+                        : 'border-border text-card-foreground hover:border-primary/50'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={copyLink}
+                className="px-3 py-2 bg-secondary text-secondary-foreground border border-border rounded-lg hover:bg-secondary/80 transition-colors inline-flex items-center space-x-2 text-sm"
+              >
+                <Link2 className="h-4 w-4" />
+                <span>{copied ? 'Copied!' : 'Copy Link'}</span>
+              </button>
+              <button
+                onClick={exportJson}
+                className="px-3 py-2 bg-secondary text-secondary-foreground border border-border rounded-lg hover:bg-secondary/80 transition-colors inline-flex items-center space-x-2 text-sm"
+              >
+                <Download className="h-4 w-4" />
+                <span>Export JSON</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Timeline */}
+      <div className="bg-card border border-border rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-card-foreground mb-4">Timeline</h3>
+        <div className="space-y-1 max-h-80 overflow-y-auto">
+          {replay.steps.map((s, index) => (
+            <button
+              key={s.transactionHash ?? 'opening'}
+              onClick={() => goTo(index)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                index === current ? 'bg-primary/10 text-primary' : 'text-card-foreground hover:bg-secondary/20'
+              }`}
+            >
+              <span className="font-mono text-xs text-card-foreground/60 mr-2">#{index}</span>
+              {describeStep(s, index).join(' · ')}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
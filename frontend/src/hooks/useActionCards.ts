@@ -0,0 +1,34 @@
+import { useMemo } from 'react'
+import { useContractReads, resultAt } from './useContract'
+import type { ActionPattern } from '@/lib/actions'
+
+export interface ActionCardInfo {
+  pattern: ActionPattern
+  usesRemaining: bigint
+}
+
+/**
+ * On-chain pattern and remaining uses for each action NFT, keyed by token ID.
+ * The public actionPatterns getter drops targetCells, so this reads getActionInfo.
+ */
+export function useActionCards(tokenIds: readonly bigint[]) {
+  const { data, isLoading, refetch } = useContractReads(
+    tokenIds.map(tokenId => ({
+      contractName: 'ActionNFTManager' as const,
+      functionName: 'getActionInfo' as const,
+      args: [tokenId],
+    })),
+    { enabled: tokenIds.length > 0, watch: true }
+  )
+
+  const cards = useMemo(() => {
+    const byToken = new Map<bigint, ActionCardInfo>()
+    tokenIds.forEach((tokenId, index) => {
+      const info = resultAt(data, index)
+      if (info) byToken.set(tokenId, { pattern: info[0], usesRemaining: info[2] })
+    })
+    return byToken
+  }, [tokenIds, data])
+
+  return { cards, isLoading, refetch }
+}
\ No newline at end of file
@@ -0,0 +1,172 @@
+import { useMemo } from 'react'
+import { isAddressEqual } from 'viem'
+import type { IndexedEvent } from '@/lib/indexer'
+import { useIndexedEvents } from './useIndexedEvents'
+
+export const GRID_SIZE = 10
+
+// Mirrors GameConfig.CellState. GameState.CellState stops at SUNK; the
+// defensive states share its numbering and are decoded ahead of being emitted.
+export const CHAIN_CELL_STATES = ['EMPTY', 'SHIP', 'HIT', 'MISS', 'SUNK', 'SHIELDED', 'SCANNING', 'SPECIAL'] as const
+export type ChainCellState = typeof CHAIN_CELL_STATES[number]
+
+// States set by defensive action cards rather than by attacks
+export const DEFENSIVE_CELL_STATES: readonly ChainCellState[] = ['SHIELDED', 'SCANNING', 'SPECIAL']
+
+// What we are allowed to know about the opponent's board
+export type EnemyCellState = 'unknown' | 'miss' | 'hit' | 'sunk' | 'shielded' | 'scanning' | 'special'
+
+type BattleEventName = 'AttackMade' | 'CellStateChanged' | 'ShipDestroyed'
+
+export interface BattleEvent {
+  eventName: BattleEventName
+  blockNumber: bigint
+  logIndex: number
+  transactionHash: string
+  args: {
+    gameId?: bigint
+    attacker?: `0x${string}`
+    player?: `0x${string}`
+    x?: number
+    y?: number
+    hit?: boolean
+    newState?: number
+    shipIndex?: number
+  }
+}
+
+// Cells one transaction moved into or out of a defensive state
+export interface DefensiveEffect {
+  transactionHash: string
+  blockNumber: bigint
+  player: string
+  cells: { x: number; y: number; from: ChainCellState; to: ChainCellState }[]
+}
+
+export interface ShotStats {
+  shotsFired: number
+  hits: number
+  accuracy: number
+}
+
+const emptyGrid = <T,>(value: T): T[][] =>
+  Array(GRID_SIZE).fill(null).map(() => Array(GRID_SIZE).fill(value))
+
+const toBattleEvents = (events: readonly IndexedEvent<unknown>[]): BattleEvent[] =>
+  events.map(event => ({
+    eventName: event.eventName as BattleEventName,
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+    transactionHash: event.transactionHash,
+    args: event.args as BattleEvent['args'],
+  }))
+
+function sortEvents(events: BattleEvent[]): BattleEvent[] {
+  return [...events].sort((a, b) => {
+    if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1
+    return a.logIndex - b.logIndex
+  })
+}
+
+function toEnemyCell(state: ChainCellState): EnemyCellState {
+  switch (state) {
+    case 'HIT': return 'hit'
+    case 'MISS': return 'miss'
+    case 'SUNK': return 'sunk'
+    case 'SHIELDED': return 'shielded'
+    case 'SCANNING': return 'scanning'
+    case 'SPECIAL': return 'special'
+    // EMPTY and SHIP look the same until they are shot at
+    default: return 'unknown'
+  }
+}
+
+function getShotStats(events: BattleEvent[], attacker?: `0x${string}`): ShotStats {
+  const shots = attacker
+    ? events.filter(e => e.eventName === 'AttackMade' && !!e.args.attacker && isAddressEqual(e.args.attacker, attacker))
+    : []
+  const hits = shots.filter(e => e.args.hit).length
+  return {
+    shotsFired: shots.length,
+    hits,
+    accuracy: shots.length > 0 ? Math.round((hits / shots.length) * 100) : 0,
+  }
+}
+
+/**
+ * Reconstructs both boards of a game from AttackMade, CellStateChanged and
+ * ShipDestroyed in the local event index, which keeps them current as new
+ * logs are mined. Defensive effects come from the same CellStateChanged logs.
+ */
+export function useBattleEvents(gameId: number, player?: `0x${string}`, opponent?: `0x${string}`) {
+  const byGame = { gameId: BigInt(gameId || 0) }
+  const options = { enabled: !!gameId }
+  const attacksMade = useIndexedEvents('BattleshipGame', 'AttackMade', byGame, options)
+  const cellChanges = useIndexedEvents('GameState', 'CellStateChanged', byGame, options)
+  const shipsDestroyed = useIndexedEvents('GameLogic', 'ShipDestroyed', byGame, options)
+  const sources = [attacksMade, cellChanges, shipsDestroyed]
+
+  const boards = useMemo(() => {
+    const events = sortEvents(toBattleEvents([...attacksMade.events, ...cellChanges.events, ...shipsDestroyed.events]))
+    const ownGrid = emptyGrid<ChainCellState>('EMPTY')
+    const opponentGrid = emptyGrid<ChainCellState>('EMPTY')
+    const effects = new Map<string, DefensiveEffect>()
+    let ownShipsLost = 0
+    let enemyShipsSunk = 0
+
+    for (const event of events) {
+      if (event.eventName === 'CellStateChanged') {
+        const { player: owner, x, y, newState } = event.args
+        if (!owner || x === undefined || y === undefined || newState === undefined) continue
+        if (x >= GRID_SIZE || y >= GRID_SIZE) continue
+
+        const state = CHAIN_CELL_STATES[newState] ?? 'EMPTY'
+        const grid = player && isAddressEqual(owner, player)
+          ? ownGrid
+          : opponent && isAddressEqual(owner, opponent) ? opponentGrid : null
+        if (!grid) continue
+
+        const previous = grid[y][x]
+        grid[y][x] = state
+
+        if (DEFENSIVE_CELL_STATES.includes(state) || DEFENSIVE_CELL_STATES.includes(previous)) {
+          const key = `${event.transactionHash}-${owner}`
+          const effect = effects.get(key) ?? {
+            transactionHash: event.transactionHash,
+            blockNumber: event.blockNumber,
+            player: owner,
+            cells: [],
+          }
+          effect.cells.push({ x, y, from: previous, to: state })
+          effects.set(key, effect)
+        }
+      } else if (event.eventName === 'ShipDestroyed') {
+        const owner = event.args.player
+        if (!owner) continue
+        if (player && isAddressEqual(owner, player)) ownShipsLost++
+        else if (opponent && isAddressEqual(owner, opponent)) enemyShipsSunk++
+      }
+    }
+
+    const attacks = events.filter(e => e.eventName === 'AttackMade')
+
+    return {
+      events,
+      ownGrid,
+      enemyGrid: opponentGrid.map(row => row.map(toEnemyCell)),
+      ownShipsLost,
+      enemyShipsSunk,
+      myStats: getShotStats(events, player),
+      opponentStats: getShotStats(events, opponent),
+      lastAttack: attacks.length > 0 ? attacks[attacks.length - 1] : null,
+      // Oldest first, in the order the cells changed
+      defensiveEffects: Array.from(effects.values()),
+    }
+  }, [attacksMade.events, cellChanges.events, shipsDestroyed.events, player, opponent])
+
+  return {
+    ...boards,
+    isBackfilling: sources.some(source => source.isLoading),
+    error: sources.find(source => source.error)?.error ?? null,
+  }
+}
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { useMemo } from 'react'
+import { zeroAddress } from 'viem'
+import { useContractRead, useContractReads, resultAt } from './useContract'
+import { useIndexedEvents } from './useIndexedEvents'
+import type { IndexedEvent } from '@/lib/indexer'
+import { buildReplay, type ReplayEvent, type ReplayEventName } from '@/lib/replay'
+
+const toReplayEvents = (events: readonly IndexedEvent<unknown>[]): ReplayEvent[] =>
+  events.map(event => ({
+    eventName: event.eventName as ReplayEventName,
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+    transactionHash: event.transactionHash,
+    args: event.args as ReplayEvent['args'],
+  }))
+
+/**
+ * Everything needed to replay a game, read from the local event index.
+ * ActionUsed and CreditsAwarded are matched by player and block range since
+ * neither event carries the game id.
+ */
+export function useBattleReplay(gameId: bigint) {
+  const { data: gameInfo, isLoading: isLoadingInfo } = useContractRead(
+    'BattleshipGame',
+    'getGameInfo',
+    [gameId]
+  )
+  // Unset until someone has joined the game
+  const hasOpponent = !!gameInfo && gameInfo.player2 !== zeroAddress
+  const player1 = hasOpponent ? gameInfo.player1 : undefined
+  const player2 = hasOpponent ? gameInfo.player2 : undefined
+  const players = player1 && player2 ? [player1, player2] : undefined
+
+  const { data: fleets } = useContractReads(
+    (players ?? []).map(player => ({
+      contractName: 'GameState' as const,
+      functionName: 'getPlayerFleet' as const,
+      args: [gameId, player],
+    })),
+    { enabled: !!players }
+  )
+
+  const byGame = { gameId }
+  const shipsPlaced = useIndexedEvents('GameState', 'ShipsPlaced', byGame)
+  const cellChanges = useIndexedEvents('GameState', 'CellStateChanged', byGame)
+  const started = useIndexedEvents('BattleshipGame', 'GameStarted', byGame)
+  const attacks = useIndexedEvents('BattleshipGame', 'AttackMade', byGame)
+  const ended = useIndexedEvents('BattleshipGame', 'GameEnded', byGame)
+  const shipsDestroyed = useIndexedEvents('GameLogic', 'ShipDestroyed', byGame)
+  const captainAbilities = useIndexedEvents('GameLogic', 'CaptainAbilityUsed', byGame)
+  const crewAbilities = useIndexedEvents('GameLogic', 'CrewAbilityUsed', byGame)
+  const actionsUsed = useIndexedEvents(
+    'ActionNFTManager',
+    'ActionUsed',
+    { user: players },
+    { enabled: !!players }
+  )
+  const creditsAwarded = useIndexedEvents(
+    'TokenomicsCore',
+    'CreditsAwarded',
+    { player: players },
+    { enabled: !!players }
+  )
+
+  const sources = [
+    shipsPlaced, cellChanges, started, attacks, ended,
+    shipsDestroyed, captainAbilities, crewAbilities, actionsUsed, creditsAwarded,
+  ]
+
+  const fleetActionIds = useMemo(
+    () => [0, 1].flatMap(index => resultAt(fleets, index)?.actionIds ?? []),
+    [fleets]
+  )
+
+  const replay = useMemo(() => {
+    if (!player1 || !player2) return null
+
+    // The game's own events bound the window for the ones keyed only by player
+    const gameEvents = toReplayEvents([
+      ...shipsPlaced.events, ...cellChanges.events, ...started.events, ...attacks.events,
+      ...ended.events, ...shipsDestroyed.events, ...captainAbilities.events, ...crewAbilities.events,
+    ])
+    if (gameEvents.length === 0) return null
+
+    const firstBlock = gameEvents.reduce((min, e) => (e.blockNumber < min ? e.blockNumber : min), gameEvents[0].blockNumber)
+    const lastBlock = gameEvents.reduce((max, e) => (e.blockNumber > max ? e.blockNumber : max), gameEvents[0].blockNumber)
+    const inWindow = toReplayEvents([...actionsUsed.events, ...creditsAwarded.events])
+      .filter(e => e.blockNumber >= firstBlock && e.blockNumber <= lastBlock)
+
+    return buildReplay([...gameEvents, ...inWindow], player1, player2, fleetActionIds)
+  }, [
+    player1, player2, fleetActionIds,
+    shipsPlaced.events, cellChanges.events, started.events, attacks.events, ended.events,
+    shipsDestroyed.events, captainAbilities.events, crewAbilities.events, actionsUsed.events, creditsAwarded.events,
+  ])
+
+  return {
+    replay,
+    gameInfo,
+    isCompleted: gameInfo?.status === 2,
+    isLoading: isLoadingInfo || sources.some(source => source.isLoading),
+    isSyncing: sources.some(source => source.isSyncing),
+    error: sources.find(source => source.error)?.error ?? null,
+  }
+}
\ No newline at end of file
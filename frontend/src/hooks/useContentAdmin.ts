@@ -0,0 +1,161 @@
+import { useMemo } from 'react'
+import { useContractRead, useContractReads, resultAt } from './useContract'
+import type { VariantStatMods } from '@/lib/placards'
+
+// ActionNFTManager.actionTemplates; the public getter leaves out targetCells
+export interface ActionTemplateSummary {
+  templateId: number
+  name: string
+  description: string
+  damage: number
+  range: number
+  uses: number
+  category: number
+  minRarity: number
+  isActive: boolean
+  isSeasonalOnly: boolean
+  seasonId: bigint
+}
+
+export interface ShipVariantSummary {
+  variantId: bigint
+  name: string
+  isActive: boolean
+  isRetired: boolean
+  seasonId: bigint
+  svgThemeId: number
+  hasAnimations: boolean
+  retiredAt: bigint
+  statMods: VariantStatMods
+}
+
+export interface ActionVariantSummary {
+  variantId: bigint
+  name: string
+  isActive: boolean
+  isRetired: boolean
+  seasonId: bigint
+  retiredAt: bigint
+  svgThemeId: number
+}
+
+// IDs from `first` up to, but not including, the contract's next ID
+const idsBelow = (first: number, next?: bigint | number) =>
+  next === undefined ? [] : Array.from({ length: Math.max(0, Number(next) - first) }, (_, i) => first + i)
+
+/**
+ * Every action template authored so far. Template IDs start at 1; ID 0 is
+ * what unassigned tokens fall back to.
+ */
+export function useActionTemplates() {
+  const { data: nextTemplateId, refetch: refetchNext } = useContractRead('ActionNFTManager', 'nextTemplateId', [], { watch: true })
+  const templateIds = useMemo(() => idsBelow(1, nextTemplateId), [nextTemplateId])
+
+  const { data, isLoading, refetch } = useContractReads(
+    templateIds.map(id => ({
+      contractName: 'ActionNFTManager' as const,
+      functionName: 'actionTemplates' as const,
+      args: [id],
+    })),
+    { enabled: templateIds.length > 0 }
+  )
+
+  const templates: ActionTemplateSummary[] = useMemo(() => templateIds.flatMap((templateId, index) => {
+    const t = resultAt(data, index)
+    if (!t) return []
+    return [{
+      templateId,
+      name: t[0],
+      description: t[1],
+      damage: t[2],
+      range: t[3],
+      uses: t[4],
+      category: t[5],
+      minRarity: t[6],
+      isActive: t[7],
+      isSeasonalOnly: t[8],
+      seasonId: t[9],
+    }]
+  }), [templateIds, data])
+
+  return {
+    templates,
+    isLoading,
+    refetch: () => {
+      refetchNext()
+      refetch()
+    },
+  }
+}
+
+/**
+ * Ship and action variants. Both managers seed their variants in the
+ * constructor and have no entrypoint to add, activate or retire one.
+ */
+export function useVariants() {
+  const { data: counters } = useContractReads([
+    { contractName: 'ShipNFTManager', functionName: 'nextVariantId' },
+    { contractName: 'ShipNFTManager', functionName: 'activeVariant' },
+    { contractName: 'ActionNFTManager', functionName: 'nextActionVariantId' },
+    { contractName: 'ActionNFTManager', functionName: 'activeActionVariant' },
+  ], { watch: true })
+
+  const shipVariantIds = useMemo(() => idsBelow(1, resultAt(counters, 0)), [counters])
+  const actionVariantIds = useMemo(() => idsBelow(1, resultAt(counters, 2)), [counters])
+
+  const { data: shipData, isLoading: isLoadingShips } = useContractReads(
+    shipVariantIds.map(id => ({
+      contractName: 'ShipNFTManager' as const,
+      functionName: 'variants' as const,
+      args: [BigInt(id)],
+    })),
+    { enabled: shipVariantIds.length > 0 }
+  )
+
+  const { data: actionData, isLoading: isLoadingActions } = useContractReads(
+    actionVariantIds.map(id => ({
+      contractName: 'ActionNFTManager' as const,
+      functionName: 'actionVariants' as const,
+      args: [BigInt(id)],
+    })),
+    { enabled: actionVariantIds.length > 0 }
+  )
+
+  const shipVariants: ShipVariantSummary[] = useMemo(() => shipVariantIds.flatMap((id, index) => {
+    const v = resultAt(shipData, index)
+    if (!v) return []
+    return [{
+      variantId: BigInt(id),
+      name: v[0],
+      isActive: v[1],
+      isRetired: v[2],
+      seasonId: v[3],
+      svgThemeId: v[4],
+      hasAnimations: v[5],
+      retiredAt: v[6],
+      statMods: v[7],
+    }]
+  }), [shipVariantIds, shipData])
+
+  const actionVariants: ActionVariantSummary[] = useMemo(() => actionVariantIds.flatMap((id, index) => {
+    const v = resultAt(actionData, index)
+    if (!v) return []
+    return [{
+      variantId: BigInt(id),
+      name: v[0],
+      isActive: v[1],
+      isRetired: v[2],
+      seasonId: v[3],
+      retiredAt: v[4],
+      svgThemeId: v[5],
+    }]
+  }), [actionVariantIds, actionData])
+
+  return {
+    shipVariants,
+    actionVariants,
+    activeShipVariant: resultAt(counters, 1),
+    activeActionVariant: resultAt(counters, 3),
+    isLoading: isLoadingShips || isLoadingActions,
+  }
+}
\ No newline at end of file
@@ -1,47 +1,224 @@
-import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
-import { CONTRACT_ADDRESSES, type ContractName } from '@/lib/config'
-import { ABIS, type AbiName } from '@/lib/abis'
-
-export function useContractRead(
-  contractName: ContractName & AbiName,
-  functionName: string,
-  args?: readonly unknown[],
-  options?: any
-) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES[contractName] as `0x${string}`,
-    abi: ABIS[contractName] as any,
-    functionName: functionName as any,
-    args: args as any,
-    ...options,
-  } as any)
-}
-
-export function useContractWrite(
-  contractName: ContractName & AbiName
-) {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-  
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  const writeContractAsync = (functionName: string, args?: readonly unknown[], options?: any) => {
-    return writeContract({
-      address: CONTRACT_ADDRESSES[contractName] as `0x${string}`,
-      abi: ABIS[contractName] as any,
-      functionName: functionName as any,
-      args: args as any,
-      ...options,
-    } as any)
-  }
-
-  return {
-    writeContract: writeContractAsync,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
+import { useCapabilities, useChainId, useConfig, usePublicClient, useReadContract, useReadContracts, useSendCalls, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
+import { waitForCallsStatus } from 'wagmi/actions'
+import type { Abi, ContractFunctionArgs, ContractFunctionName, ContractFunctionReturnType } from 'viem'
+import type { ContractName } from '@/lib/config'
+import { ABIS, type AbiName } from '@/lib/abis'
+import { useContractAddresses } from './useNetwork'
+
+export type ContractId = ContractName & AbiName
+export type ContractAbi<TName extends ContractId> = typeof ABIS[TName]
+
+type ReadMutability = 'pure' | 'view'
+type WriteMutability = 'nonpayable' | 'payable'
+
+export type ReadFunctionName<TName extends ContractId> =
+  ContractFunctionName<ContractAbi<TName>, ReadMutability>
+export type WriteFunctionName<TName extends ContractId> =
+  ContractFunctionName<ContractAbi<TName>, WriteMutability>
+
+export type ReadFunctionArgs<TName extends ContractId, TFunction extends ReadFunctionName<TName>> =
+  ContractFunctionArgs<ContractAbi<TName>, ReadMutability, TFunction>
+export type WriteFunctionArgs<TName extends ContractId, TFunction extends WriteFunctionName<TName>> =
+  ContractFunctionArgs<ContractAbi<TName>, WriteMutability, TFunction>
+export type ReadFunctionResult<TName extends ContractId, TFunction extends ReadFunctionName<TName>> =
+  ContractFunctionReturnType<ContractAbi<TName>, ReadMutability, TFunction>
+
+export interface ReadOptions {
+  enabled?: boolean
+  // Keep the value fresh by polling instead of reading once
+  watch?: boolean
+}
+
+export interface WriteOptions {
+  value?: bigint
+}
+
+const WATCH_INTERVAL_MS = 4000
+
+// A read in a multicall batch: one member per contract function, so the
+// function name and its args are both checked against that contract's ABI.
+// Functions without inputs may leave args out.
+export type ContractCall<TName extends ContractId = ContractId, TFunction extends string = string> = {
+  [N in TName]: {
+    [F in TFunction & ReadFunctionName<N>]: {
+      contractName: N
+      functionName: F
+    } & (ReadFunctionArgs<N, F> extends readonly [] ? { args?: readonly [] } : { args: ReadFunctionArgs<N, F> })
+  }[TFunction & ReadFunctionName<N>]
+}[TName]
+
+type ContractReadResult<TResult = unknown> =
+  | { result: TResult; status: 'success'; error?: undefined }
+  | { result?: undefined; status: 'failure'; error: Error }
+
+type CallResult<TCall> = TCall extends { contractName: infer N extends ContractId; functionName: infer F }
+  ? F extends ReadFunctionName<N> ? ReadFunctionResult<N, F> : never
+  : never
+
+// Results line up with the calls, as in wagmi's useReadContracts
+export type ContractReadResults<TCalls extends readonly ContractCall[]> = {
+  -readonly [K in keyof TCalls]: ContractReadResult<CallResult<TCalls[K]>>
+}
+
+export function useContractRead<
+  TName extends ContractId,
+  TFunction extends ReadFunctionName<TName>,
+  const TArgs extends ReadFunctionArgs<TName, TFunction>,
+>(
+  contractName: TName,
+  functionName: TFunction,
+  args?: TArgs,
+  options?: ReadOptions
+) {
+  const chainId = useChainId()
+  const addresses = useContractAddresses()
+
+  return useReadContract<ContractAbi<TName>, TFunction, TArgs>({
+    address: addresses[contractName],
+    chainId,
+    abi: ABIS[contractName],
+    functionName,
+    args,
+    query: {
+      enabled: options?.enabled ?? true,
+      refetchInterval: options?.watch ? WATCH_INTERVAL_MS : undefined,
+    },
+  } as Parameters<typeof useReadContract<ContractAbi<TName>, TFunction, TArgs>>[0])
+}
+
+// Batches several reads into a single multicall (falls back to individual calls
+// on chains without multicall3). Failed calls come back with status 'failure'.
+export function useContractReads<const TCalls extends readonly ContractCall[]>(
+  calls: TCalls,
+  options?: ReadOptions
+) {
+  const chainId = useChainId()
+  const addresses = useContractAddresses()
+
+  const query = useReadContracts({
+    contracts: calls.map(call => ({
+      address: addresses[call.contractName],
+      chainId,
+      abi: ABIS[call.contractName] as Abi,
+      functionName: call.functionName,
+      args: call.args,
+    })),
+    query: {
+      enabled: (options?.enabled ?? true) && calls.length > 0,
+      refetchInterval: options?.watch ? WATCH_INTERVAL_MS : undefined,
+    },
+  })
+
+  // The calls were checked against their ABIs above; wagmi only sees a generic Abi
+  return query as Omit<typeof query, 'data'> & { data: ContractReadResults<TCalls> | undefined }
+}
+
+export function resultAt<TData extends readonly ContractReadResult[], TIndex extends number>(
+  data: TData | undefined,
+  index: TIndex
+): TData[TIndex]['result'] | undefined {
+  const entry = data?.[index]
+  return entry && entry.status === 'success' ? entry.result : undefined
+}
+
+export function useContractWrite<TName extends ContractId>(
+  contractName: TName
+) {
+  const chainId = useChainId()
+  const addresses = useContractAddresses()
+  const publicClient = usePublicClient({ chainId })
+  const { writeContract, writeContractAsync, data: hash, error, isPending } = useWriteContract()
+  
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  })
+
+  const buildRequest = <TFunction extends WriteFunctionName<TName>>(
+    functionName: TFunction,
+    args: WriteFunctionArgs<TName, TFunction>,
+    options?: WriteOptions
+  ) => ({
+    address: addresses[contractName],
+    chainId,
+    abi: ABIS[contractName] as Abi,
+    functionName,
+    args,
+    ...options,
+  } as Parameters<typeof writeContract>[0])
+
+  const write = <TFunction extends WriteFunctionName<TName>>(
+    functionName: TFunction,
+    args: WriteFunctionArgs<TName, TFunction>,
+    options?: WriteOptions
+  ) => {
+    return writeContract(buildRequest(functionName, args, options))
+  }
+
+  // Resolves once the transaction is mined, for flows that chain several writes
+  const writeAndWait = async <TFunction extends WriteFunctionName<TName>>(
+    functionName: TFunction,
+    args: WriteFunctionArgs<TName, TFunction>,
+    options?: WriteOptions
+  ) => {
+    if (!publicClient) throw new Error('No client available for the current network')
+    const txHash = await writeContractAsync(buildRequest(functionName, args, options))
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash })
+    if (receipt.status === 'reverted') throw new Error(`Transaction ${txHash} reverted`)
+    return receipt
+  }
+
+  return {
+    writeContract: write,
+    writeAndWait,
+    hash,
+    error,
+    isPending,
+    isConfirming,
+    isConfirmed,
+  }
+}
+
+// One write in a call batch, checked against the contract's ABI like writeContract
+export type WriteCall<TName extends ContractId> = {
+  [F in WriteFunctionName<TName>]: { functionName: F; args: WriteFunctionArgs<TName, F> }
+}[WriteFunctionName<TName>]
+
+/**
+ * Sends several writes to one contract as a single EIP-5792 call batch.
+ * `canBatch` is only set when the connected wallet reports atomic execution
+ * for the current chain; otherwise callers send the writes one at a time.
+ */
+export function useContractBatch<TName extends ContractId>(
+  contractName: TName
+) {
+  const chainId = useChainId()
+  const config = useConfig()
+  const addresses = useContractAddresses()
+  const { data: capabilities } = useCapabilities({ chainId })
+  const { sendCallsAsync, isPending } = useSendCalls()
+
+  const atomic = capabilities?.atomic?.status
+  const canBatch = atomic === 'supported' || atomic === 'ready'
+
+  // Resolves once every call in the batch has been mined, and throws if any failed
+  const sendAndWait = async (calls: readonly WriteCall<TName>[]) => {
+    const { id } = await sendCallsAsync({
+      chainId,
+      forceAtomic: true,
+      calls: calls.map(({ functionName, args }) => ({
+        to: addresses[contractName],
+        abi: ABIS[contractName] as Abi,
+        functionName,
+        args,
+      })) as Parameters<typeof sendCallsAsync>[0]['calls'],
+    })
+    const { status } = await waitForCallsStatus(config, { id })
+    if (status !== 'success') throw new Error(`Call batch ${id} failed`)
+  }
+
+  return {
+    canBatch,
+    sendAndWait,
+    isPending,
+  }
 }
\ No newline at end of file
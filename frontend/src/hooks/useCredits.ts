@@ -1,71 +1,217 @@
-import { useAccount } from 'wagmi'
-import { useContractRead, useContractWrite } from './useContract'
-import { formatEther } from 'viem'
-
-export function useCredits() {
-  const { address } = useAccount()
-
-  // Get player's current credits with decay applied
-  const { data: playerCredits, refetch: refetchCredits } = useContractRead(
-    'TokenomicsCore',
-    'getPlayerCredits',
-    address ? [address] : undefined,
-    { enabled: !!address, watch: true }
-  )
-
-  // Get total active credits in the system
-  const { data: totalActiveCredits } = useContractRead(
-    'TokenomicsCore',
-    'getTotalActiveCredits',
-    [],
-    { watch: true }
-  )
-
-  // Get claimable vested tokens
-  const { data: claimableTokens } = useContractRead(
-    'TokenomicsCore',
-    'getClaimableVestedTokens',
-    address ? [address] : undefined,
-    { enabled: !!address, watch: true }
-  )
-
-  // Convert credits to tokens
-  const { writeContract: convertCredits, isPending: isConverting, error: convertError } = useContractWrite('TokenomicsCore')
-
-  // Claim vested tokens
-  const { writeContract: claimTokens, isPending: isClaiming, error: claimError } = useContractWrite('TokenomicsCore')
-
-  const handleConvertCredits = async (amount: bigint) => {
-    if (!address) return
-    try {
-      await convertCredits('convertCreditsToTokens', [amount])
-      refetchCredits()
-    } catch (error) {
-      console.error('Failed to convert credits:', error)
-    }
-  }
-
-  const handleClaimTokens = async () => {
-    if (!address) return
-    try {
-      await claimTokens('claimVestedTokens', [])
-      refetchCredits()
-    } catch (error) {
-      console.error('Failed to claim tokens:', error)
-    }
-  }
-
-  return {
-    playerCredits: playerCredits ? formatEther(playerCredits as bigint) : '0',
-    totalActiveCredits: totalActiveCredits ? formatEther(totalActiveCredits as bigint) : '0',
-    claimableTokens: claimableTokens ? formatEther(claimableTokens as bigint) : '0',
-    convertCredits: handleConvertCredits,
-    claimTokens: handleClaimTokens,
-    isConverting,
-    isClaiming,
-    convertError,
-    claimError,
-    refetchCredits,
-    isLoading: !playerCredits && !totalActiveCredits && !claimableTokens && !!address
-  }
+import { useEffect, useMemo, useState } from 'react'
+import { useAccount, useChainId, usePublicClient } from 'wagmi'
+import { useContractRead, useContractReads, useContractWrite, resultAt } from './useContract'
+import { useIndexedEvents } from './useIndexedEvents'
+import { formatEther } from 'viem'
+import { availableAt, calculateCreditValue, calculateEmissionShare } from '@/lib/credits'
+
+// One epoch the player earned credits in, priced the way claimEmissions prices it
+export interface EmissionLedgerEntry {
+  epoch: bigint
+  creditsEarned: bigint
+  // After decay at the contract's stored epoch
+  creditsNow: bigint
+  processed: boolean
+  totalEmissions: bigint
+  epochTotalCredits: bigint
+  share: bigint
+  // Released so far by the linear payout over the epoch
+  available: bigint
+  // Reconstructed from the latest EmissionsClaimed; the contract keeps the exact figure private
+  claimed: bigint
+  claimable: bigint
+}
+
+export function useCredits() {
+  const { address } = useAccount()
+  const chainId = useChainId()
+  const publicClient = usePublicClient({ chainId })
+  const [lastClaimTime, setLastClaimTime] = useState<bigint | null>(null)
+  const [now, setNow] = useState(() => BigInt(Math.floor(Date.now() / 1000)))
+
+  // Get player's current credits with decay applied
+  const { data: playerCredits, refetch: refetchCredits } = useContractRead(
+    'TokenomicsCore',
+    'getPlayerCredits',
+    address ? [address] : undefined,
+    { enabled: !!address, watch: true }
+  )
+
+  // Get total active credits in the system
+  const { data: totalActiveCredits } = useContractRead(
+    'TokenomicsCore',
+    'getTotalActiveCredits',
+    [],
+    { watch: true }
+  )
+
+  // Get claimable vested tokens
+  const { data: claimableTokens } = useContractRead(
+    'TokenomicsCore',
+    'getClaimableVestedTokens',
+    address ? [address] : undefined,
+    { enabled: !!address, watch: true }
+  )
+
+  // What claimEmissions would pay right now, across every processed epoch
+  const { data: claimableEmissions, refetch: refetchEmissions } = useContractRead(
+    'TokenomicsCore',
+    'getClaimableEmissions',
+    address ? [address] : undefined,
+    { enabled: !!address, watch: true }
+  )
+
+  const { data: creditHistory } = useContractRead(
+    'TokenomicsCore',
+    'getPlayerCreditHistory',
+    address ? [address] : undefined,
+    { enabled: !!address, watch: true }
+  )
+
+  const { data: emissionConfig } = useContractReads([
+    { contractName: 'TokenomicsCore', functionName: 'currentEpoch' },
+    { contractName: 'TokenomicsCore', functionName: 'EPOCH_DURATION' },
+    { contractName: 'TokenomicsCore', functionName: 'emissionCapEnabled' },
+    { contractName: 'TokenomicsCore', functionName: 'maxEmissionPercentage' },
+  ], { watch: true })
+
+  const storedEpoch = resultAt(emissionConfig, 0)
+  const epochDuration = resultAt(emissionConfig, 1)
+  const capEnabled = resultAt(emissionConfig, 2) ?? false
+  const capPercentage = resultAt(emissionConfig, 3) ?? BigInt(100)
+
+  const entries = useMemo(() => creditHistory ?? [], [creditHistory])
+  const emissionCap = useMemo(() => ({ enabled: capEnabled, percentage: capPercentage }), [capEnabled, capPercentage])
+
+  // Raw credits earned per epoch, oldest first
+  const creditsByEpoch = useMemo(() => {
+    const totals = new Map<bigint, bigint>()
+    entries.forEach(entry => {
+      totals.set(entry.epoch, (totals.get(entry.epoch) ?? BigInt(0)) + entry.amount)
+    })
+    return Array.from(totals.entries()).sort(([a], [b]) => (a < b ? -1 : 1))
+  }, [entries])
+
+  const { data: epochData } = useContractReads(
+    creditsByEpoch.flatMap(([epoch]) => [
+      { contractName: 'TokenomicsCore' as const, functionName: 'getEpochStats' as const, args: [epoch] },
+      { contractName: 'TokenomicsCore' as const, functionName: 'emissionEpochInfo' as const, args: [epoch] },
+    ]),
+    { enabled: creditsByEpoch.length > 0, watch: true }
+  )
+
+  // claimEmissions overwrites each epoch's claimed amount with what was available
+  // at the time, so the latest claim is enough to reconstruct it
+  const { events: claims } = useIndexedEvents('TokenomicsCore', 'EmissionsClaimed', { player: address }, { enabled: !!address })
+  const lastClaimBlock = claims.length > 0 ? claims[claims.length - 1].blockNumber : undefined
+
+  useEffect(() => {
+    if (!publicClient || lastClaimBlock === undefined) {
+      setLastClaimTime(null)
+      return
+    }
+
+    let cancelled = false
+    publicClient.getBlock({ blockNumber: lastClaimBlock })
+      .then(block => {
+        if (!cancelled) setLastClaimTime(block.timestamp)
+      })
+      .catch(err => console.error('Failed to load emission claim time:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [publicClient, lastClaimBlock])
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(BigInt(Math.floor(Date.now() / 1000))), 10000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const ledger: EmissionLedgerEntry[] = useMemo(() => {
+    if (storedEpoch === undefined || !epochDuration) return []
+
+    return creditsByEpoch.map(([epoch, creditsEarned], index) => {
+      const stats = resultAt(epochData, index * 2)
+      const [totalEmissions, startTime, epochTotalCredits] =
+        resultAt(epochData, index * 2 + 1) ?? [BigInt(0), BigInt(0), BigInt(0)]
+      const processed = stats?.[4] ?? false
+
+      const creditsNow = calculateCreditValue(creditsEarned, epoch, storedEpoch)
+      const share = processed
+        ? calculateEmissionShare(totalEmissions, epochTotalCredits, creditsNow, emissionCap)
+        : BigInt(0)
+      const available = availableAt(share, startTime, epochDuration, now)
+      const claimedAtLast = lastClaimTime !== null ? availableAt(share, startTime, epochDuration, lastClaimTime) : BigInt(0)
+      const claimed = claimedAtLast < available ? claimedAtLast : available
+
+      return {
+        epoch,
+        creditsEarned,
+        creditsNow,
+        processed,
+        totalEmissions,
+        epochTotalCredits,
+        share,
+        available,
+        claimed,
+        claimable: available - claimed,
+      }
+    }).reverse()
+  }, [creditsByEpoch, epochData, storedEpoch, epochDuration, emissionCap, now, lastClaimTime])
+
+  // Claim all outstanding emissions; the contract settles every epoch in one call
+  const {
+    writeAndWait: claimEmissions,
+    isPending: isEmissionsPending,
+    isConfirming: isEmissionsConfirming,
+    error: emissionsError,
+  } = useContractWrite('TokenomicsCore')
+
+  // Claim vested tokens
+  const { writeContract: claimTokens, isPending: isClaiming, error: claimError } = useContractWrite('TokenomicsCore')
+
+  const handleClaimEmissions = async () => {
+    if (!address) return
+    try {
+      // Refresh once the claim is mined; its EmissionsClaimed log reaches the index on its own
+      await claimEmissions('claimEmissions', [address])
+      refetchEmissions()
+      refetchCredits()
+    } catch (error) {
+      console.error('Failed to claim emissions:', error)
+    }
+  }
+
+  const handleClaimTokens = async () => {
+    if (!address) return
+    try {
+      await claimTokens('claimVestedTokens', [address])
+      refetchCredits()
+    } catch (error) {
+      console.error('Failed to claim tokens:', error)
+    }
+  }
+
+  const [liquid = BigInt(0), vested = BigInt(0)] = claimableEmissions ?? []
+
+  return {
+    // Credits are whole numbers awarded per game, not 18-decimal token amounts
+    playerCredits: playerCredits !== undefined ? playerCredits.toString() : '0',
+    totalActiveCredits: totalActiveCredits !== undefined ? totalActiveCredits.toString() : '0',
+    claimableTokens: claimableTokens ? formatEther(claimableTokens) : '0',
+    claimableEmissions: { liquid, vested },
+    ledger,
+    creditHistory: entries,
+    emissionCap,
+    storedEpoch,
+    claimEmissions: handleClaimEmissions,
+    claimTokens: handleClaimTokens,
+    isClaimingEmissions: isEmissionsPending || isEmissionsConfirming,
+    isClaiming,
+    emissionsError,
+    claimError,
+    refetchCredits,
+    isLoading: !playerCredits && !totalActiveCredits && !claimableTokens && !!address
+  }
 }
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useContractRead, type ReadFunctionResult } from './useContract'
+import { useUserNFTs, type NFT, type NFTType } from './useNFTs'
+
+/**
+ * The NFTs a player intends to bring into a game. Nothing is stored on chain
+ * until placeShips, so the selection is cached locally between fleet setup and
+ * ship placement.
+ */
+export interface FleetDraft {
+  shipId: bigint
+  captainId: bigint
+  crewIds: bigint[]
+  actionIds: bigint[]
+}
+
+// GameState.PlayerFleet, as recorded by placeShips
+export type CommittedFleet = ReadFunctionResult<'GameState', 'getPlayerFleet'>
+
+// Token IDs shared by drafts and committed fleets
+type FleetTokenIds = Pick<CommittedFleet, 'shipId' | 'captainId' | 'crewIds' | 'actionIds'>
+
+interface StoredFleetDraft {
+  shipId: string
+  captainId: string
+  crewIds: string[]
+  actionIds: string[]
+}
+
+const draftKey = (gameId: number) => `fleet_${gameId}`
+
+function loadFleetDraft(gameId: number): FleetDraft | null {
+  try {
+    const stored = localStorage.getItem(draftKey(gameId))
+    if (!stored) return null
+    const draft = JSON.parse(stored) as StoredFleetDraft
+    return {
+      shipId: BigInt(draft.shipId),
+      captainId: BigInt(draft.captainId),
+      crewIds: draft.crewIds.map(id => BigInt(id)),
+      actionIds: draft.actionIds.map(id => BigInt(id)),
+    }
+  } catch {
+    // Drafts from older builds stored whole NFT objects, start over
+    return null
+  }
+}
+
+export function useFleetDraft(gameId: number | null) {
+  const [draft, setDraft] = useState<FleetDraft | null>(null)
+
+  useEffect(() => {
+    setDraft(gameId ? loadFleetDraft(gameId) : null)
+  }, [gameId])
+
+  const saveDraft = useCallback((next: FleetDraft) => {
+    if (!gameId) return
+    const stored: StoredFleetDraft = {
+      shipId: next.shipId.toString(),
+      captainId: next.captainId.toString(),
+      crewIds: next.crewIds.map(id => id.toString()),
+      actionIds: next.actionIds.map(id => id.toString()),
+    }
+    localStorage.setItem(draftKey(gameId), JSON.stringify(stored))
+    setDraft(next)
+  }, [gameId])
+
+  const clearDraft = useCallback(() => {
+    if (gameId) localStorage.removeItem(draftKey(gameId))
+    setDraft(null)
+  }, [gameId])
+
+  return { draft, saveDraft, clearDraft }
+}
+
+export function useCommittedFleet(gameId: number | null, player?: `0x${string}`) {
+  const { data, isLoading, refetch } = useContractRead(
+    'GameState',
+    'getPlayerFleet',
+    gameId && player ? [BigInt(gameId), player] : undefined,
+    { enabled: !!gameId && !!player, watch: true }
+  )
+
+  return {
+    fleet: data,
+    isLoading,
+    refetch,
+  }
+}
+
+/**
+ * Resolves a fleet's token IDs against the connected wallet's inventory.
+ * Tokens that are no longer in the wallet are left out.
+ */
+export function useFleetNFTs(fleet: FleetTokenIds | null | undefined) {
+  const { nfts, isLoading } = useUserNFTs()
+
+  const resolved = useMemo(() => {
+    const find = (type: NFTType, tokenId: bigint) =>
+      nfts.find(nft => nft.type === type && nft.tokenId === tokenId)
+    const findAll = (type: NFTType, tokenIds: readonly bigint[]) =>
+      tokenIds.map(id => find(type, id)).filter((nft): nft is NFT => !!nft)
+
+    return {
+      ship: fleet ? find('SHIP', fleet.shipId) ?? null : null,
+      captain: fleet ? find('CAPTAIN', fleet.captainId) ?? null : null,
+      crew: fleet ? findAll('CREW', fleet.crewIds) : [],
+      actions: fleet ? findAll('ACTION', fleet.actionIds) : [],
+    }
+  }, [nfts, fleet])
+
+  return { ...resolved, isLoading }
+}
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { useMemo } from 'react'
+import { useContractRead, useContractReads, resultAt } from './useContract'
+import { useIndexedEvents } from './useIndexedEvents'
+import type { CommittedFleet } from './useFleet'
+import type { AttackCrew } from '@/lib/bonuses'
+
+export interface CrewStatus extends AttackCrew {
+  stamina: number
+  timesUsed: number
+}
+
+/**
+ * Live captain and crew state for a committed fleet: CrewNFTManager.canUseCrew
+ * for stamina, the GameConfig base damage the bonuses build on, and how often
+ * GameLogic has applied each of them in this game.
+ */
+export function useFleetAbilities(gameId: number, fleet?: CommittedFleet, player?: `0x${string}`) {
+  const captainId = fleet && fleet.captainId > BigInt(0) ? fleet.captainId : undefined
+  const crewIds = useMemo(() => fleet?.crewIds ?? [], [fleet])
+
+  const { data: baseDamage, isLoading: isLoadingDamage } = useContractRead(
+    'GameConfig',
+    'getDefaultAttackDamage',
+    [],
+    { enabled: !!fleet, watch: true }
+  )
+
+  const { data: captain } = useContractRead(
+    'CaptainNFTManager',
+    'getCaptainInfo',
+    captainId !== undefined ? [captainId] : undefined,
+    { enabled: captainId !== undefined, watch: true }
+  )
+
+  const { data: crewInfo, isLoading: isLoadingCrew } = useContractReads(
+    crewIds.map(tokenId => ({ contractName: 'CrewNFTManager', functionName: 'getCrewInfo', args: [tokenId] } as const)),
+    { enabled: !!fleet, watch: true }
+  )
+
+  const { data: crewUsable } = useContractReads(
+    crewIds.map(tokenId => ({ contractName: 'CrewNFTManager', functionName: 'canUseCrew', args: [tokenId] } as const)),
+    { enabled: !!fleet, watch: true }
+  )
+
+  const eventFilter = { gameId: BigInt(gameId), player }
+  const captainUses = useIndexedEvents('GameLogic', 'CaptainAbilityUsed', eventFilter, { enabled: !!player })
+  const crewUses = useIndexedEvents('GameLogic', 'CrewAbilityUsed', eventFilter, { enabled: !!player })
+
+  const crew: CrewStatus[] = useMemo(() => crewIds.flatMap((tokenId, index) => {
+    const info = resultAt(crewInfo, index)
+    const usable = resultAt(crewUsable, index)
+    if (!info || !usable) return []
+    return [{
+      tokenId,
+      info,
+      canUse: usable[0],
+      stamina: usable[1],
+      timesUsed: crewUses.events.filter(event => event.args.crewId === tokenId).length,
+    }]
+  }), [crewIds, crewInfo, crewUsable, crewUses.events])
+
+  return {
+    baseDamage,
+    captain: captainId !== undefined ? captain : undefined,
+    captainId,
+    captainTimesUsed: captainUses.events.length,
+    crew,
+    isLoading: isLoadingDamage || isLoadingCrew,
+  }
+}
\ No newline at end of file
@@ -0,0 +1,144 @@
+import { useMemo, useState } from 'react'
+import { useContractReads, useContractWrite, resultAt } from './useContract'
+import { useIndexedEvents } from './useIndexedEvents'
+import { SHIP_TYPES } from './useNFTs'
+import {
+  describeParameterUpdate,
+  parameterKey,
+  SCALAR_PARAMETERS,
+  type ConfigSnapshot,
+  type ConfigUpdate,
+  type FieldChange,
+  type ScalarKey,
+  type ShipStats,
+} from '@/lib/gameConfig'
+
+export interface ParameterHistoryEntry extends FieldChange {
+  blockNumber: bigint
+  transactionHash: `0x${string}`
+  logIndex: number
+}
+
+const SCALAR_CALLS = SCALAR_PARAMETERS.map(parameter => ({ contractName: 'GameConfig', functionName: parameter.getter } as const))
+const SHIP_STATS_CALLS = SHIP_TYPES.map((_, shipType) => ({ contractName: 'GameConfig', functionName: 'getShipStats', args: [shipType] } as const))
+
+/**
+ * Current values of every catalogued GameConfig parameter. `current` stays
+ * undefined until all of them have loaded, so an editor never stages
+ * against a partial snapshot.
+ */
+export function useGameConfigParameters() {
+  const { data: scalarData, isLoading: isLoadingScalars, refetch: refetchScalars } = useContractReads(SCALAR_CALLS, { watch: true })
+  const { data: shipStatsData, refetch: refetchShipStats } = useContractReads(SHIP_STATS_CALLS, { watch: true })
+  const { data, refetch: refetchRest } = useContractReads([
+    { contractName: 'GameConfig', functionName: 'getFleetRequirements' },
+    { contractName: 'GameConfig', functionName: 'getPauseStatus' },
+  ], { watch: true })
+
+  const current: ConfigSnapshot | undefined = useMemo(() => {
+    const scalars: Partial<Record<ScalarKey, number>> = {}
+    for (const [index, parameter] of SCALAR_PARAMETERS.entries()) {
+      const value = resultAt(scalarData, index)
+      if (value === undefined) return undefined
+      scalars[parameter.key] = Number(value)
+    }
+
+    const shipStats: ShipStats[] = []
+    for (const shipType of SHIP_TYPES.keys()) {
+      const stats = resultAt(shipStatsData, shipType)
+      if (!stats) return undefined
+      shipStats.push({ health: stats.health, speed: stats.speed, shields: stats.shields, size: stats.size })
+    }
+
+    const fleetRequirements = resultAt(data, 0)
+    if (!fleetRequirements) return undefined
+
+    return {
+      scalars: scalars as Record<ScalarKey, number>,
+      shipStats,
+      fleetRequirements: [...fleetRequirements],
+    }
+  }, [scalarData, shipStatsData, data])
+
+  const pauseStatus = resultAt(data, 1)
+
+  return {
+    current,
+    isPaused: pauseStatus?.[0] ?? false,
+    pauseReason: pauseStatus?.[1] ?? '',
+    isLoading: isLoadingScalars,
+    refetch: () => {
+      refetchScalars()
+      refetchShipStats()
+      refetchRest()
+    },
+  }
+}
+
+/**
+ * Every ParameterUpdated log from GameConfig, newest first, with its key
+ * resolved against the catalogue.
+ */
+export function useParameterHistory() {
+  const { events, indexedBlock, isLoading, error } = useIndexedEvents('GameConfig', 'ParameterUpdated')
+
+  const history: ParameterHistoryEntry[] = useMemo(() => events.map(event => ({
+    ...describeParameterUpdate(event.args.parameterKey, event.args.oldValue, event.args.newValue),
+    blockNumber: event.blockNumber,
+    transactionHash: event.transactionHash,
+    logIndex: event.logIndex,
+  })).reverse(), [events])
+
+  return { history, indexedBlock, isLoading, error }
+}
+
+/**
+ * Sends planned updates one transaction at a time, in order. GameConfig's
+ * batchUpdateParameters is commented out, so there is no single call to
+ * apply them atomically; a failure stops the run and leaves the rest unsent.
+ */
+export function useConfigSubmission(onSettled?: () => void) {
+  const [progress, setProgress] = useState<{ current: number; total: number } | null>(null)
+  const [error, setError] = useState<Error | null>(null)
+  const { writeAndWait } = useContractWrite('GameConfig')
+
+  const send = (update: ConfigUpdate) => {
+    switch (update.kind) {
+      case 'scalar':
+        return writeAndWait(update.parameter.setter, [parameterKey(update.parameter.key), BigInt(update.value)])
+      case 'shipStats':
+        return writeAndWait('updateShipStats', [update.shipType, update.stats])
+      case 'fleetRequirements': {
+        const [destroyers, submarines, cruisers, battleships, carriers] = update.requirements
+        return writeAndWait('updateFleetRequirements', [[destroyers, submarines, cruisers, battleships, carriers]])
+      }
+    }
+  }
+
+  // Resolves to whether every update was mined
+  const submit = async (updates: ConfigUpdate[]) => {
+    if (updates.length === 0) return true
+
+    setError(null)
+    try {
+      for (let i = 0; i < updates.length; i++) {
+        setProgress({ current: i + 1, total: updates.length })
+        await send(updates[i])
+      }
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)))
+      return false
+    } finally {
+      setProgress(null)
+      onSettled?.()
+    }
+  }
+
+  return {
+    submit,
+    progress,
+    isSubmitting: progress !== null,
+    error,
+  }
+}
\ No newline at end of file
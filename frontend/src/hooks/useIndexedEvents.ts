@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react'
+import { useChainId, usePublicClient } from 'wagmi'
+import type { ContractEventArgs, ContractEventName, GetEventArgs } from 'viem'
+import {
+  getIndexerStatus,
+  queryEvents,
+  subscribeIndexer,
+  watchEvents,
+  type EventArgsFilter,
+  type IndexedEvent,
+  type IndexerStatus,
+} from '@/lib/indexer'
+import type { ContractAbi, ContractId } from './useContract'
+
+export type IndexedEventArgs<TName extends ContractId, TEvent extends ContractEventName<ContractAbi<TName>>> =
+  GetEventArgs<ContractAbi<TName>, TEvent, { EnableUnion: false; IndexedOnly: false; Required: true }>
+
+export interface IndexedEventsOptions {
+  enabled?: boolean
+}
+
+// Filters are compared by value, so callers can pass a fresh object every render
+const serializeFilter = (filter?: EventArgsFilter) =>
+  filter ? JSON.stringify(filter, (_, value) => (typeof value === 'bigint' ? `${value}n` : value)) : ''
+
+const parseFilter = (key: string): EventArgsFilter | undefined =>
+  key
+    ? JSON.parse(key, (_, value) => (typeof value === 'string' && /^\d+n$/.test(value) ? BigInt(value.slice(0, -1)) : value))
+    : undefined
+
+/**
+ * Every `eventName` log of `contractName` from the local event index, oldest
+ * first. Watching keeps the index synced, so new logs show up as they are mined.
+ */
+export function useIndexedEvents<
+  TName extends ContractId,
+  TEvent extends ContractEventName<ContractAbi<TName>>,
+>(
+  contractName: TName,
+  eventName: TEvent,
+  args?: ContractEventArgs<ContractAbi<TName>, TEvent>,
+  options?: IndexedEventsOptions
+) {
+  const chainId = useChainId()
+  const publicClient = usePublicClient({ chainId })
+  const enabled = options?.enabled ?? true
+  const filterKey = serializeFilter(args as EventArgsFilter | undefined)
+
+  const [events, setEvents] = useState<IndexedEvent<IndexedEventArgs<TName, TEvent>>[]>([])
+  const [status, setStatus] = useState<IndexerStatus>(() => getIndexerStatus(chainId))
+  const [isQuerying, setIsQuerying] = useState(false)
+
+  useEffect(() => {
+    if (!publicClient || !enabled) return
+
+    let cancelled = false
+    const filter = parseFilter(filterKey)
+
+    const load = () => {
+      setIsQuerying(true)
+      queryEvents(chainId, contractName, eventName, filter)
+        .then(logs => {
+          if (!cancelled) setEvents(logs as IndexedEvent<IndexedEventArgs<TName, TEvent>>[])
+        })
+        .catch(err => console.error(`Failed to query ${contractName}.${eventName}:`, err))
+        .finally(() => {
+          if (!cancelled) setIsQuerying(false)
+        })
+    }
+
+    setStatus(getIndexerStatus(chainId))
+    load()
+
+    const unsubscribe = subscribeIndexer(chainId, (next, logsChanged) => {
+      if (cancelled) return
+      setStatus(next)
+      if (logsChanged) load()
+    })
+    const stopWatching = watchEvents(publicClient, chainId)
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+      stopWatching()
+    }
+  }, [publicClient, chainId, contractName, eventName, filterKey, enabled])
+
+  return {
+    events,
+    // Last block the index has fully covered
+    indexedBlock: status.lastBlock,
+    isSyncing: status.isSyncing,
+    isLoading: isQuerying || (status.isSyncing && events.length === 0),
+    error: status.error,
+  }
+}
\ No newline at end of file
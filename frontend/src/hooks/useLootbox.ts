@@ -1,74 +1,263 @@
-import { useAccount } from 'wagmi'
-import { useContractRead, useContractWrite } from './useContract'
-
-export function useLootbox() {
-  const { address } = useAccount()
-  
-  // Read current lootbox price
-  const { data: lootboxPrice, refetch: refetchPrice } = useContractRead(
-    'LootboxSystem',
-    'getLootboxPrice',
-    [],
-    { watch: true }
-  )
-
-  // Read user's purchased but unopened lootboxes
-  const { data: unopenedCount, refetch: refetchUnopened } = useContractRead(
-    'LootboxSystem',
-    'getUnopenedLootboxCount',
-    address ? [address] : undefined,
-    { enabled: !!address, watch: true }
-  )
-
-  // Write functions
-  const { 
-    writeContract: purchaseLootbox, 
-    isPending: isPurchasing,
-    isConfirmed: isPurchaseConfirmed,
-    error: purchaseError 
-  } = useContractWrite('LootboxSystem')
-
-  const { 
-    writeContract: openLootbox, 
-    isPending: isOpening,
-    isConfirmed: isOpenConfirmed,
-    error: openError 
-  } = useContractWrite('LootboxSystem')
-
-  const buyLootbox = async () => {
-    if (!lootboxPrice) return
-    return purchaseLootbox('purchaseLootbox', [], {
-      value: lootboxPrice
-    })
-  }
-
-  const openLootboxes = async (count: number = 1) => {
-    return openLootbox('openLootboxes', [count])
-  }
-
-  const refetchAll = () => {
-    refetchPrice()
-    refetchUnopened()
-  }
-
-  return {
-    // Data
-    lootboxPrice,
-    unopenedCount: unopenedCount ? Number(unopenedCount) : 0,
-    
-    // Actions
-    buyLootbox,
-    openLootboxes,
-    refetchAll,
-    
-    // States
-    isPurchasing,
-    isOpening,
-    isPurchaseConfirmed,
-    isOpenConfirmed,
-    
-    // Errors
-    purchaseError,
-    openError,
-  }
+import { useState } from 'react'
+import { useAccount, useChainId, usePublicClient, useReadContracts, useWriteContract } from 'wagmi'
+import { erc20Abi, isAddressEqual, parseEventLogs, zeroAddress, type Log } from 'viem'
+import { ABIS } from '@/lib/abis'
+import type { ContractAddresses } from '@/lib/config'
+import { useContractRead, useContractWrite } from './useContract'
+import { useContractAddresses } from './useNetwork'
+import { NFT_CONTRACTS, RARITIES, type NFTRarity, type NFTType } from './useNFTs'
+import { usePullHistory } from './usePullHistory'
+
+// LootboxSystem treats the zero address as the native token
+const NATIVE_PAYMENT_TOKEN = zeroAddress
+
+export interface PaymentOption {
+  token: `0x${string}`
+  price: bigint
+  symbol: string
+  decimals: number
+  isNative: boolean
+}
+
+export interface LootboxDrop {
+  tokenId: bigint
+  type: NFTType
+  rarity: NFTRarity
+}
+
+export interface LootboxReveal {
+  lootboxId: bigint
+  transactionHash: `0x${string}`
+  drops: LootboxDrop[]
+}
+
+// Collects every token minted to `owner` in a receipt, in the order they were minted
+function parseMintedDrops(logs: Log[], owner: `0x${string}`, addresses: ContractAddresses): LootboxDrop[] {
+  const logsFrom = (type: NFTType) => logs.filter(log => isAddressEqual(log.address, addresses[NFT_CONTRACTS[type]]))
+
+  // Each manager emits its own *Minted event when the lootbox mints into it
+  const minted = [
+    ...parseEventLogs({ abi: ABIS.ShipNFTManager, eventName: 'ShipMinted', args: { owner }, logs: logsFrom('SHIP') })
+      .map(event => ({ type: 'SHIP' as const, event })),
+    ...parseEventLogs({ abi: ABIS.ActionNFTManager, eventName: 'ActionMinted', args: { owner }, logs: logsFrom('ACTION') })
+      .map(event => ({ type: 'ACTION' as const, event })),
+    ...parseEventLogs({ abi: ABIS.CaptainNFTManager, eventName: 'CaptainMinted', args: { owner }, logs: logsFrom('CAPTAIN') })
+      .map(event => ({ type: 'CAPTAIN' as const, event })),
+    ...parseEventLogs({ abi: ABIS.CrewNFTManager, eventName: 'CrewMinted', args: { owner }, logs: logsFrom('CREW') })
+      .map(event => ({ type: 'CREW' as const, event })),
+  ]
+
+  return minted
+    .sort((a, b) => a.event.logIndex - b.event.logIndex)
+    .map(({ type, event }) => ({
+      tokenId: event.args.tokenId,
+      type,
+      rarity: RARITIES[event.args.rarity] ?? 'COMMON',
+    }))
+}
+
+export interface LootboxProgress {
+  step: 'approving' | 'buying' | 'opening'
+  current: number
+  total: number
+}
+
+export function useLootbox() {
+  const { address, chain } = useAccount()
+  const chainId = useChainId()
+  const publicClient = usePublicClient({ chainId })
+  const addresses = useContractAddresses()
+  const { pulls, stats: pullStats, recordPull, clearHistory } = usePullHistory()
+  const [selectedToken, setSelectedToken] = useState<`0x${string}` | null>(null)
+  const [progress, setProgress] = useState<LootboxProgress | null>(null)
+  const [reveals, setReveals] = useState<LootboxReveal[]>([])
+  // Reverts surface from the receipt rather than the wallet, so errors are tracked per flow
+  const [purchaseError, setPurchaseError] = useState<Error | null>(null)
+  const [openError, setOpenError] = useState<Error | null>(null)
+
+  // Accepted payment tokens and their prices
+  const { data: paymentTokens, refetch: refetchPrice } = useContractRead(
+    'LootboxSystem',
+    'getPaymentTokens',
+    [],
+    { watch: true }
+  )
+
+  // Read user's purchased and opened lootboxes
+  const { data: playerLootboxes, refetch: refetchUnopened } = useContractRead(
+    'LootboxSystem',
+    'getPlayerLootboxes',
+    address ? [address] : undefined,
+    { enabled: !!address, watch: true }
+  )
+
+  const [tokens = [], prices = []] = paymentTokens ?? []
+  const erc20Tokens = tokens.filter(token => token !== NATIVE_PAYMENT_TOKEN)
+
+  // Symbol, decimals and allowance for every ERC20 the contract accepts
+  const { data: symbols } = useReadContracts({
+    contracts: erc20Tokens.map(token => ({ address: token, chainId, abi: erc20Abi, functionName: 'symbol' } as const)),
+    query: { enabled: erc20Tokens.length > 0 },
+  })
+  const { data: decimals } = useReadContracts({
+    contracts: erc20Tokens.map(token => ({ address: token, chainId, abi: erc20Abi, functionName: 'decimals' } as const)),
+    query: { enabled: erc20Tokens.length > 0 },
+  })
+  const { data: allowances, refetch: refetchAllowances } = useReadContracts({
+    contracts: erc20Tokens.map(token => ({
+      address: token,
+      chainId,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [address ?? zeroAddress, addresses.LootboxSystem],
+    } as const)),
+    query: { enabled: erc20Tokens.length > 0 },
+  })
+
+  const paymentOptions: PaymentOption[] = tokens.map((token, index) => {
+    if (token === NATIVE_PAYMENT_TOKEN) {
+      return {
+        token,
+        price: prices[index],
+        symbol: chain?.nativeCurrency.symbol ?? 'S',
+        decimals: chain?.nativeCurrency.decimals ?? 18,
+        isNative: true,
+      }
+    }
+    const erc20Index = erc20Tokens.indexOf(token)
+    return {
+      token,
+      price: prices[index],
+      symbol: symbols?.[erc20Index]?.result ?? `${token.slice(0, 6)}...`,
+      decimals: decimals?.[erc20Index]?.result ?? 18,
+      isNative: false,
+    }
+  })
+
+  const paymentOption = paymentOptions.find(option => option.token === selectedToken) ?? paymentOptions[0]
+
+  const getAllowance = (token: `0x${string}`) => {
+    return allowances?.[erc20Tokens.indexOf(token)]?.result ?? BigInt(0)
+  }
+
+  const [ownedBoxes = [], openedBoxes = []] = playerLootboxes ?? []
+  const unopenedIds = ownedBoxes.filter(id => !openedBoxes.includes(id))
+
+  // Write functions
+  const { writeAndWait: purchaseLootbox, isConfirmed: isPurchaseConfirmed } = useContractWrite('LootboxSystem')
+  const { writeAndWait: openLootbox, isConfirmed: isOpenConfirmed } = useContractWrite('LootboxSystem')
+  const { writeContractAsync: approveToken } = useWriteContract()
+
+  const ensureAllowance = async (option: PaymentOption, amount: bigint) => {
+    if (option.isNative || getAllowance(option.token) >= amount) return
+    if (!publicClient) throw new Error('No client available for the current network')
+
+    setProgress({ step: 'approving', current: 1, total: 1 })
+    const hash = await approveToken({
+      address: option.token,
+      chainId,
+      abi: erc20Abi,
+      functionName: 'approve',
+      args: [addresses.LootboxSystem, amount],
+    })
+    await publicClient.waitForTransactionReceipt({ hash })
+    await refetchAllowances()
+  }
+
+  // Buys `count` lootboxes one transaction at a time, approving the total up front for ERC20 payments
+  const buyLootboxes = async (count: number = 1) => {
+    if (!paymentOption) return 0
+
+    let bought = 0
+    setPurchaseError(null)
+    try {
+      await ensureAllowance(paymentOption, paymentOption.price * BigInt(count))
+      for (let i = 0; i < count; i++) {
+        setProgress({ step: 'buying', current: i + 1, total: count })
+        await purchaseLootbox('buyLootbox', [paymentOption.token, paymentOption.price], {
+          value: paymentOption.isNative ? paymentOption.price : undefined,
+        })
+        bought++
+      }
+    } catch (error) {
+      setPurchaseError(error instanceof Error ? error : new Error(String(error)))
+      throw error
+    } finally {
+      setProgress(null)
+      refetchUnopened()
+      refetchAllowances()
+    }
+    return bought
+  }
+
+  // Opens each box in turn and reads the drops from the *Minted events in its receipt
+  const openLootboxes = async (lootboxIds: readonly bigint[]) => {
+    if (!address) return []
+
+    const opened: LootboxReveal[] = []
+    setOpenError(null)
+    try {
+      for (const [index, lootboxId] of lootboxIds.entries()) {
+        setProgress({ step: 'opening', current: index + 1, total: lootboxIds.length })
+        const receipt = await openLootbox('openLootbox', [lootboxId])
+        const reveal: LootboxReveal = {
+          lootboxId,
+          transactionHash: receipt.transactionHash,
+          drops: parseMintedDrops(receipt.logs, address, addresses),
+        }
+        opened.push(reveal)
+        setReveals(prev => [reveal, ...prev])
+        recordPull({
+          lootboxId: lootboxId.toString(),
+          transactionHash: receipt.transactionHash,
+          openedAt: Date.now(),
+          drops: reveal.drops.map(drop => ({ ...drop, tokenId: drop.tokenId.toString() })),
+        })
+      }
+    } catch (error) {
+      setOpenError(error instanceof Error ? error : new Error(String(error)))
+      throw error
+    } finally {
+      setProgress(null)
+      refetchUnopened()
+    }
+    return opened
+  }
+
+  const refetchAll = () => {
+    refetchPrice()
+    refetchUnopened()
+    refetchAllowances()
+  }
+
+  return {
+    // Data
+    paymentOptions,
+    paymentOption,
+    lootboxPrice: paymentOption?.price,
+    unopenedIds,
+    unopenedCount: unopenedIds.length,
+    reveals,
+    pulls,
+    pullStats,
+
+    // Actions
+    selectPaymentToken: setSelectedToken,
+    buyLootboxes,
+    openLootboxes,
+    clearReveals: () => setReveals([]),
+    clearPullHistory: clearHistory,
+    refetchAll,
+
+    // States
+    progress,
+    isPurchasing: progress?.step === 'approving' || progress?.step === 'buying',
+    isOpening: progress?.step === 'opening',
+    isPurchaseConfirmed,
+    isOpenConfirmed,
+
+    // Errors
+    purchaseError,
+    openError,
+  }
 }
\ No newline at end of file
@@ -1,132 +1,280 @@
-import { useAccount } from 'wagmi'
-import { useContractRead } from './useContract'
-import { useState, useEffect } from 'react'
-
-export interface NFT {
-  id: string
-  type: 'SHIP' | 'ACTION' | 'CAPTAIN' | 'CREW'
-  rarity: 'COMMON' | 'UNCOMMON' | 'RARE' | 'EPIC' | 'LEGENDARY'
-  name: string
-  tokenURI?: string
-  svgData?: string
-  attributes: Record<string, string | number>
-  contractAddress: string
-}
-
-
-export function useUserNFTs() {
-  const { address } = useAccount()
-  const [nfts, setNfts] = useState<NFT[]>([])
-  const [isLoading, setIsLoading] = useState(false)
-
-  // Get balance for each NFT type
-  const { data: shipBalance } = useContractRead('ShipNFTManager', 'balanceOf', address ? [address] : undefined, { enabled: !!address })
-  const { data: actionBalance } = useContractRead('ActionNFTManager', 'balanceOf', address ? [address] : undefined, { enabled: !!address })
-  const { data: captainBalance } = useContractRead('CaptainNFTManager', 'balanceOf', address ? [address] : undefined, { enabled: !!address })
-  const { data: crewBalance } = useContractRead('CrewNFTManager', 'balanceOf', address ? [address] : undefined, { enabled: !!address })
-
-  useEffect(() => {
-    if (!address) {
-      setNfts([])
-      return
-    }
-
-    const fetchNFTs = async () => {
-      setIsLoading(true)
-      const allNfts: NFT[] = []
-
-      // Fetch NFTs for each type
-      const nftTypes = [
-        { type: 'SHIP' as const, balance: shipBalance },
-        { type: 'ACTION' as const, balance: actionBalance },
-        { type: 'CAPTAIN' as const, balance: captainBalance },
-        { type: 'CREW' as const, balance: crewBalance },
-      ]
-
-      for (const { type, balance } of nftTypes) {
-        if (balance && Number(balance) > 0) {
-          // For now, we'll create mock NFTs based on balance
-          // In production, you'd fetch tokenByIndex and tokenURI for each
-          for (let i = 0; i < Number(balance); i++) {
-            allNfts.push(createMockNFT(type, i))
-          }
-        }
-      }
-
-      setNfts(allNfts)
-      setIsLoading(false)
-    }
-
-    fetchNFTs()
-  }, [address, shipBalance, actionBalance, captainBalance, crewBalance])
-
-  return {
-    nfts,
-    isLoading,
-    totalCount: nfts.length,
-    shipCount: nfts.filter(n => n.type === 'SHIP').length,
-    actionCount: nfts.filter(n => n.type === 'ACTION').length,
-    captainCount: nfts.filter(n => n.type === 'CAPTAIN').length,
-    crewCount: nfts.filter(n => n.type === 'CREW').length,
-  }
-}
-
-// Helper function to create mock NFT data while we don't have full metadata fetching
-function createMockNFT(type: NFT['type'], index: number): NFT {
-  const rarities: NFT['rarity'][] = ['COMMON', 'UNCOMMON', 'RARE', 'EPIC', 'LEGENDARY']
-  const rarity = rarities[index % rarities.length]
-
-  const baseNFT = {
-    id: `${type.toLowerCase()}_${index}`,
-    type,
-    rarity,
-    contractAddress: '', // Will be populated with actual addresses
-  }
-
-  switch (type) {
-    case 'SHIP':
-      return {
-        ...baseNFT,
-        name: `Battle Ship #${index + 1}`,
-        attributes: {
-          shipType: 'BATTLESHIP',
-          size: 4,
-          speed: 1,
-          damage: 85,
-          health: 120,
-        },
-      }
-    case 'CAPTAIN':
-      return {
-        ...baseNFT,
-        name: `Admiral #${index + 1}`,
-        attributes: {
-          ability: 'DAMAGE_BOOST',
-          boost: 15,
-          experience: 750,
-        },
-      }
-    case 'CREW':
-      return {
-        ...baseNFT,
-        name: `Crew Member #${index + 1}`,
-        attributes: {
-          crewType: 'GUNNER',
-          boost: 8,
-          specialty: 'Artillery',
-        },
-      }
-    case 'ACTION':
-      return {
-        ...baseNFT,
-        name: `Action Card #${index + 1}`,
-        attributes: {
-          category: 'OFFENSIVE',
-          damage: 75,
-          range: 3,
-        },
-      }
-    default:
-      return baseNFT as NFT
-  }
+import { useAccount } from 'wagmi'
+import { useMemo } from 'react'
+import { useContractRead, useContractReads, resultAt, type ContractCall, type ReadFunctionName } from './useContract'
+import { useContractAddresses } from './useNetwork'
+import type { ContractAddresses } from '@/lib/config'
+
+export type NFTType = 'SHIP' | 'ACTION' | 'CAPTAIN' | 'CREW'
+export type NFTRarity = 'COMMON' | 'UNCOMMON' | 'RARE' | 'EPIC' | 'LEGENDARY'
+
+export interface NFT {
+  tokenId: bigint
+  type: NFTType
+  rarity: NFTRarity
+  name: string
+  tokenURI?: string
+  svgData?: string
+  attributes: Record<string, string | number>
+  contractAddress: string
+}
+
+// Enum orderings as declared in the NFT manager contracts
+export const RARITIES: NFTRarity[] = ['COMMON', 'UNCOMMON', 'RARE', 'EPIC', 'LEGENDARY']
+export const SHIP_TYPES = ['DESTROYER', 'SUBMARINE', 'CRUISER', 'BATTLESHIP', 'CARRIER'] as const
+export const CAPTAIN_ABILITIES = ['DAMAGE_BOOST', 'SPEED_BOOST', 'DEFENSE_BOOST', 'VISION_BOOST', 'LUCK_BOOST'] as const
+export const CREW_TYPES = ['GUNNER', 'ENGINEER', 'NAVIGATOR', 'MEDIC'] as const
+export const ACTION_CATEGORIES = ['OFFENSIVE', 'DEFENSIVE'] as const
+
+export const NFT_CONTRACTS = {
+  SHIP: 'ShipNFTManager',
+  ACTION: 'ActionNFTManager',
+  CAPTAIN: 'CaptainNFTManager',
+  CREW: 'CrewNFTManager',
+} as const
+
+// Unique across collections, token IDs alone are only unique per contract
+export const nftKey = (nft: Pick<NFT, 'type' | 'tokenId'>) => `${nft.type}-${nft.tokenId}`
+
+interface TokenMetadata {
+  name?: string
+  description?: string
+  image?: string
+}
+
+interface ShipStats {
+  health: number
+  speed: number
+  shields: number
+  size: number
+  firepower: number
+  range: number
+  armor: number
+  stealth: number
+}
+
+type ShipInfo = readonly [number, number, ShipStats, bigint, boolean, bigint]
+
+export interface CaptainInfo {
+  name: string
+  ability: number
+  abilityPower: number
+  experience: bigint
+  leadership: number
+  tactics: number
+  morale: number
+}
+
+export interface CrewInfo {
+  name: string
+  crewType: number
+  skillLevel: number
+  stamina: number
+  maxStamina: number
+  experience: bigint
+  efficiency: number
+  loyalty: number
+  lastUsed: bigint
+  variantId: bigint
+}
+
+type ActionInfo = readonly [{ targetCells: readonly number[]; damage: number; range: number; category: number }, number, bigint]
+
+const INFO_FUNCTIONS = {
+  SHIP: 'getShipInfo',
+  ACTION: 'getActionInfo',
+  CAPTAIN: 'getCaptainInfo',
+  CREW: 'getCrewInfo',
+} as const satisfies { [T in NFTType]: ReadFunctionName<typeof NFT_CONTRACTS[T]> }
+
+const titleCase = (value: string) =>
+  value.charAt(0) + value.slice(1).toLowerCase()
+
+export function decodeTokenURI(uri?: string): TokenMetadata | null {
+  if (!uri || !uri.startsWith('data:application/json;base64,')) return null
+  try {
+    return JSON.parse(atob(uri.replace('data:application/json;base64,', ''))) as TokenMetadata
+  } catch {
+    // Contracts still emit placeholder base64 for some collections
+    return null
+  }
+}
+
+function buildNFT(
+  type: NFTType,
+  tokenId: bigint,
+  info: unknown,
+  rarityIndex: number | undefined,
+  uri: string | undefined,
+  addresses: ContractAddresses
+): NFT {
+  const metadata = decodeTokenURI(uri)
+  const base = {
+    tokenId,
+    type,
+    rarity: RARITIES[rarityIndex ?? 0] ?? 'COMMON',
+    tokenURI: uri,
+    contractAddress: addresses[NFT_CONTRACTS[type]],
+  }
+
+  switch (type) {
+    case 'SHIP': {
+      const ship = info as ShipInfo | undefined
+      const shipType = SHIP_TYPES[ship?.[0] ?? 0]
+      const stats = ship?.[2]
+      return {
+        ...base,
+        rarity: ship ? RARITIES[ship[1]] ?? base.rarity : base.rarity,
+        name: metadata?.name || `${titleCase(shipType)} #${tokenId}`,
+        attributes: {
+          shipType,
+          size: stats?.size ?? 0,
+          speed: stats?.speed ?? 0,
+          health: stats?.health ?? 0,
+          damage: stats?.firepower ?? 0,
+          shields: stats?.shields ?? 0,
+          range: stats?.range ?? 0,
+          armor: stats?.armor ?? 0,
+          stealth: stats?.stealth ?? 0,
+          variantId: Number(ship?.[3] ?? 0),
+          crewCapacity: Number(ship?.[5] ?? 0),
+          destroyed: ship?.[4] ? 1 : 0,
+        },
+      }
+    }
+    case 'CAPTAIN': {
+      const captain = info as CaptainInfo | undefined
+      return {
+        ...base,
+        name: captain?.name || metadata?.name || `Captain #${tokenId}`,
+        attributes: {
+          ability: CAPTAIN_ABILITIES[captain?.ability ?? 0],
+          boost: captain?.abilityPower ?? 0,
+          experience: Number(captain?.experience ?? 0),
+          leadership: captain?.leadership ?? 0,
+          tactics: captain?.tactics ?? 0,
+          morale: captain?.morale ?? 0,
+        },
+      }
+    }
+    case 'CREW': {
+      const crew = info as CrewInfo | undefined
+      const crewType = CREW_TYPES[crew?.crewType ?? 0]
+      return {
+        ...base,
+        name: crew?.name || metadata?.name || `${titleCase(crewType)} #${tokenId}`,
+        attributes: {
+          crewType,
+          boost: crew?.skillLevel ?? 0,
+          stamina: crew?.stamina ?? 0,
+          maxStamina: crew?.maxStamina ?? 0,
+          experience: Number(crew?.experience ?? 0),
+          efficiency: crew?.efficiency ?? 0,
+          loyalty: crew?.loyalty ?? 0,
+        },
+      }
+    }
+    case 'ACTION': {
+      const action = info as ActionInfo | undefined
+      const category = ACTION_CATEGORIES[action?.[1] ?? 0]
+      return {
+        ...base,
+        name: metadata?.name || `${titleCase(category)} Action #${tokenId}`,
+        attributes: {
+          category,
+          damage: action?.[0].damage ?? 0,
+          range: action?.[0].range ?? 0,
+          targetCells: action?.[0].targetCells.length ?? 0,
+          usesRemaining: Number(action?.[2] ?? 0),
+          ...(metadata?.description ? { description: metadata.description } : {}),
+        },
+      }
+    }
+  }
+}
+
+// NFTs held by `owner`, or by the connected wallet when no owner is given.
+// Pass enabled: false to load nothing, e.g. while the owner is still unknown.
+export function useUserNFTs(owner?: `0x${string}`, { enabled = true }: { enabled?: boolean } = {}) {
+  const { address: account } = useAccount()
+  const address = enabled ? owner ?? account : undefined
+  const addresses = useContractAddresses()
+
+  // Enumerate owned token IDs
+  const ownerArgs = address ? [address] as const : undefined
+  const ships = useContractRead('ShipNFTManager', 'getOwnedShips', ownerArgs, { enabled: !!address })
+  const captains = useContractRead('CaptainNFTManager', 'getOwnedCaptains', ownerArgs, { enabled: !!address })
+  const crew = useContractRead('CrewNFTManager', 'getOwnedCrew', ownerArgs, { enabled: !!address })
+  const actionBalanceRead = useContractRead('ActionNFTManager', 'balanceOf', ownerArgs, { enabled: !!address })
+  const isLoadingOwnership = ships.isLoading || captains.isLoading || crew.isLoading || actionBalanceRead.isLoading
+
+  const actionBalance = Number(actionBalanceRead.data ?? 0)
+
+  // ActionNFTManager has no getOwnedActions, so walk the ERC721Enumerable index instead
+  const { data: actionIdResults, isLoading: isLoadingActions } = useContractReads(
+    address ? Array.from({ length: actionBalance }, (_, index) => ({
+      contractName: 'ActionNFTManager' as const,
+      functionName: 'tokenOfOwnerByIndex',
+      args: [address, BigInt(index)],
+    })) : [],
+    { enabled: !!address && actionBalance > 0 }
+  )
+
+  const tokens = useMemo(() => {
+    const actionIds = (actionIdResults ?? [])
+      .map((_, index) => resultAt(actionIdResults, index))
+      .filter((id): id is bigint => id !== undefined)
+
+    return [
+      ...(ships.data ?? []).map(tokenId => ({ type: 'SHIP' as const, tokenId })),
+      ...actionIds.map(tokenId => ({ type: 'ACTION' as const, tokenId })),
+      ...(captains.data ?? []).map(tokenId => ({ type: 'CAPTAIN' as const, tokenId })),
+      ...(crew.data ?? []).map(tokenId => ({ type: 'CREW' as const, tokenId })),
+    ]
+  }, [ships.data, captains.data, crew.data, actionIdResults])
+
+  // Hydrate every token: info, rarity and tokenURI
+  // The info contract and function are correlated through `type`, which TypeScript can't follow
+  const { data: infos, isLoading: isLoadingInfos, refetch: refetchInfos } = useContractReads(
+    tokens.map(({ type, tokenId }) => (
+      { contractName: NFT_CONTRACTS[type], functionName: INFO_FUNCTIONS[type], args: [tokenId] } as ContractCall
+    )),
+    { enabled: tokens.length > 0 }
+  )
+  const { data: rarities, isLoading: isLoadingRarities, refetch: refetchRarities } = useContractReads(
+    tokens.map(({ type, tokenId }) => ({ contractName: NFT_CONTRACTS[type], functionName: 'tokenRarities', args: [tokenId] } as const)),
+    { enabled: tokens.length > 0 }
+  )
+  const { data: uris, isLoading: isLoadingURIs, refetch: refetchURIs } = useContractReads(
+    tokens.map(({ type, tokenId }) => ({ contractName: NFT_CONTRACTS[type], functionName: 'tokenURI', args: [tokenId] } as const)),
+    { enabled: tokens.length > 0 }
+  )
+  const isHydrating = isLoadingInfos || isLoadingRarities || isLoadingURIs
+
+  const nfts = useMemo(() => {
+    if (!address) return []
+    return tokens.map(({ type, tokenId }, index) => buildNFT(
+      type,
+      tokenId,
+      resultAt(infos, index),
+      resultAt(rarities, index),
+      resultAt(uris, index),
+      addresses
+    ))
+  }, [address, tokens, infos, rarities, uris, addresses])
+
+  const refetch = async () => {
+    await Promise.all([ships.refetch(), captains.refetch(), crew.refetch(), actionBalanceRead.refetch()])
+    await Promise.all([refetchInfos(), refetchRarities(), refetchURIs()])
+  }
+
+  return {
+    nfts,
+    isLoading: !!address && (isLoadingOwnership || (actionBalance > 0 && isLoadingActions) || (tokens.length > 0 && isHydrating)),
+    refetch,
+    totalCount: nfts.length,
+    shipCount: nfts.filter(n => n.type === 'SHIP').length,
+    actionCount: nfts.filter(n => n.type === 'ACTION').length,
+    captainCount: nfts.filter(n => n.type === 'CAPTAIN').length,
+    crewCount: nfts.filter(n => n.type === 'CREW').length,
+  }
 }
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { useAccount, useChainId, useSwitchChain } from 'wagmi'
+import { getContractAddresses, isSupportedChain, SUPPORTED_CHAINS } from '@/lib/config'
+
+// Address book for the chain wagmi is reading from. useChainId only ever
+// returns a configured chain, so this is always a complete deployment.
+export function useContractAddresses() {
+  const chainId = useChainId()
+  return getContractAddresses(chainId)
+}
+
+export function useNetworkStatus() {
+  const { chainId: walletChainId, isConnected } = useAccount()
+  const { switchChain, isPending: isSwitching, error: switchError } = useSwitchChain()
+
+  return {
+    walletChainId,
+    // Nothing to complain about until a wallet is connected
+    isSupported: !isConnected || isSupportedChain(walletChainId),
+    supportedChains: SUPPORTED_CHAINS,
+    switchChain: (chainId: number) => switchChain({ chainId }),
+    isSwitching,
+    switchError,
+  }
+}
\ No newline at end of file
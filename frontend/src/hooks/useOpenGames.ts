@@ -0,0 +1,98 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useChainId, usePublicClient } from 'wagmi'
+import { zeroAddress } from 'viem'
+import { useContractReads, resultAt } from './useContract'
+import { useIndexedEvents } from './useIndexedEvents'
+
+export interface OpenGame {
+  gameId: bigint
+  creator: `0x${string}`
+  gameSize: number
+  ante: bigint
+  blockNumber: bigint
+  // Unix seconds of the block the game was created in, once fetched
+  createdAt?: number
+}
+
+/**
+ * Games waiting for a second player, from BattleshipGame's GameCreated and
+ * GameJoined events in the local event index. Cancelling a game emits nothing,
+ * so every candidate is confirmed against getGameInfo before it is listed.
+ */
+export function useOpenGames() {
+  const chainId = useChainId()
+  const publicClient = usePublicClient({ chainId })
+  const [blockTimes, setBlockTimes] = useState<Map<bigint, number>>(new Map())
+
+  const created = useIndexedEvents('BattleshipGame', 'GameCreated')
+  const joined = useIndexedEvents('BattleshipGame', 'GameJoined')
+
+  const candidates = useMemo(() => {
+    const joinedIds = new Set(joined.events.map(event => event.args.gameId))
+    return created.events
+      .filter(event => !joinedIds.has(event.args.gameId))
+      .map(event => ({
+        gameId: event.args.gameId,
+        creator: event.args.player1,
+        gameSize: event.args.gameSize,
+        ante: event.args.ante,
+        blockNumber: event.blockNumber,
+      }))
+      .sort((a, b) => (a.gameId < b.gameId ? 1 : -1))
+  }, [created.events, joined.events])
+
+  // Cancelled games only show up in their on-chain status
+  const { data: gameInfos, isLoading: isVerifying, refetch: refetchInfos } = useContractReads(
+    candidates.map(game => ({
+      contractName: 'BattleshipGame' as const,
+      functionName: 'getGameInfo' as const,
+      args: [game.gameId],
+    })),
+    { enabled: candidates.length > 0, watch: true }
+  )
+
+  const waiting = useMemo(() => candidates.filter((_, index) => {
+    const info = resultAt(gameInfos, index)
+    return !!info && info.status === 0 && info.player2 === zeroAddress
+  }), [candidates, gameInfos])
+
+  // Block timestamps for the "created ... ago" column
+  useEffect(() => {
+    if (!publicClient) return
+
+    const missing = Array.from(new Set(waiting.map(game => game.blockNumber)))
+      .filter(blockNumber => !blockTimes.has(blockNumber))
+    if (missing.length === 0) return
+
+    let cancelled = false
+    Promise.all(missing.map(blockNumber => publicClient.getBlock({ blockNumber })))
+      .then(blocks => {
+        if (cancelled) return
+        setBlockTimes(prev => {
+          const next = new Map(prev)
+          blocks.forEach(block => next.set(block.number, Number(block.timestamp)))
+          return next
+        })
+      })
+      .catch(err => console.error('Failed to fetch block timestamps:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [publicClient, waiting, blockTimes])
+
+  const games: OpenGame[] = useMemo(
+    () => waiting.map(game => ({ ...game, createdAt: blockTimes.get(game.blockNumber) })),
+    [waiting, blockTimes]
+  )
+
+  return {
+    games,
+    isLoading: created.isLoading || joined.isLoading || (candidates.length > 0 && isVerifying),
+    error: created.error ?? joined.error,
+    // New logs arrive through the index; only the status reads need a nudge
+    refetch: () => {
+      refetchInfos()
+    },
+  }
+}
\ No newline at end of file
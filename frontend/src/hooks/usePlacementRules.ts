@@ -0,0 +1,27 @@
+import { useMemo } from 'react'
+import { useContractReads, resultAt } from './useContract'
+import { MAX_GRID_SIZE, expandFleetRequirements } from '@/lib/placement'
+
+/**
+ * Board size and fleet composition from GameConfig.
+ * The grid is capped at GameLogic's fixed size, which is what placeShips actually checks against.
+ */
+export function usePlacementRules() {
+  const { data, isLoading, error } = useContractReads([
+    { contractName: 'GameConfig', functionName: 'getGridSize' },
+    { contractName: 'GameConfig', functionName: 'getFleetRequirements' },
+  ])
+
+  return useMemo(() => {
+    const configGridSize = resultAt(data, 0)
+    const requirements = resultAt(data, 1)
+
+    return {
+      gridSize: Math.min(configGridSize ?? MAX_GRID_SIZE, MAX_GRID_SIZE),
+      configGridSize,
+      requiredShipTypes: requirements ? expandFleetRequirements(requirements) : [],
+      isLoading,
+      error,
+    }
+  }, [data, isLoading, error])
+}
\ No newline at end of file
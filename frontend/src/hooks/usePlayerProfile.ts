@@ -0,0 +1,126 @@
+import { useMemo } from 'react'
+import { useContractRead, useContractReads, resultAt } from './useContract'
+import { isAddressEqual } from 'viem'
+import { useIndexedEvents } from './useIndexedEvents'
+import { GAME_SIZE_NAMES } from '@/lib/gameConfig'
+
+// Matches GameState.GameStatus
+const STATUS_ACTIVE = 1
+const STATUS_COMPLETED = 2
+
+export interface GameSizeRecord {
+  played: number
+  won: number
+}
+
+export interface MatchSummary {
+  gameId: bigint
+  gameSize: number
+  opponent: `0x${string}`
+  status: number
+  won: boolean
+  startTime: bigint
+  endTime: bigint
+}
+
+/**
+ * A player's record, built from GameStarted and ShipDestroyed in the event index
+ * plus BattleshipGame, TokenomicsCore and StakingPool views for that address.
+ */
+export function usePlayerProfile(player?: `0x${string}`) {
+  const enabled = !!player
+
+  // A player can sit on either side of a game
+  const asPlayer1 = useIndexedEvents('BattleshipGame', 'GameStarted', { player1: player }, { enabled })
+  const asPlayer2 = useIndexedEvents('BattleshipGame', 'GameStarted', { player2: player }, { enabled })
+  const shipsDestroyed = useIndexedEvents('GameLogic', 'ShipDestroyed', { player }, { enabled })
+
+  const gameIds = useMemo(() => {
+    const ids = new Set<bigint>()
+    asPlayer1.events.forEach(event => ids.add(event.args.gameId))
+    asPlayer2.events.forEach(event => ids.add(event.args.gameId))
+    return Array.from(ids).sort((a, b) => (a < b ? 1 : -1))
+  }, [asPlayer1.events, asPlayer2.events])
+
+  const { data: gameInfos, isLoading: isLoadingGames } = useContractReads(
+    gameIds.map(gameId => ({
+      contractName: 'BattleshipGame' as const,
+      functionName: 'getGameInfo' as const,
+      args: [gameId],
+    })),
+    { enabled: enabled && gameIds.length > 0 }
+  )
+
+  const playerArgs = player ? [player] as const : undefined
+  const { data: creditHistory } = useContractRead('TokenomicsCore', 'getPlayerCreditHistory', playerArgs, { enabled, watch: true })
+  const { data: activeCredits } = useContractRead('TokenomicsCore', 'getPlayerCredits', playerArgs, { enabled, watch: true })
+  const { data: stakingSummary } = useContractRead('StakingPool', 'getUserStakingSummary', playerArgs, { enabled, watch: true })
+  const { data: activeGameId } = useContractRead('BattleshipGame', 'getPlayerActiveGame', playerArgs, { enabled, watch: true })
+
+  const matches: MatchSummary[] = useMemo(() => gameIds.flatMap((gameId, index) => {
+    const info = resultAt(gameInfos, index)
+    if (!info || !player) return []
+    return [{
+      gameId,
+      gameSize: info.gameSize,
+      opponent: isAddressEqual(info.player1, player) ? info.player2 : info.player1,
+      status: info.status,
+      won: info.status === STATUS_COMPLETED && isAddressEqual(info.winner, player),
+      startTime: info.startTime,
+      endTime: info.endTime,
+    }]
+  }), [gameIds, gameInfos, player])
+
+  const record = useMemo(() => {
+    const completed = matches.filter(match => match.status === STATUS_COMPLETED)
+    const bySize: GameSizeRecord[] = GAME_SIZE_NAMES.map((_, size) => {
+      const games = completed.filter(match => match.gameSize === size)
+      return { played: games.length, won: games.filter(match => match.won).length }
+    })
+
+    const durations = completed
+      .filter(match => match.startTime > BigInt(0) && match.endTime >= match.startTime)
+      .map(match => Number(match.endTime - match.startTime))
+
+    const won = completed.filter(match => match.won).length
+    return {
+      bySize,
+      played: completed.length,
+      won,
+      winRate: completed.length > 0 ? (won / completed.length) * 100 : 0,
+      // Seconds from GameStarted to the end of the game
+      averageGameLength: durations.length > 0 ? durations.reduce((sum, d) => sum + d, 0) / durations.length : undefined,
+      inProgress: matches.filter(match => match.status === STATUS_ACTIVE).length,
+    }
+  }, [matches])
+
+  // Raw credits earned per epoch, oldest first
+  const creditsByEpoch = useMemo(() => {
+    const totals = new Map<bigint, bigint>()
+    for (const entry of creditHistory ?? []) {
+      totals.set(entry.epoch, (totals.get(entry.epoch) ?? BigInt(0)) + entry.amount)
+    }
+    return Array.from(totals.entries())
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .map(([epoch, amount]) => ({ epoch, amount }))
+  }, [creditHistory])
+
+  return {
+    matches,
+    record,
+    shipsLost: shipsDestroyed.events.length,
+    creditsByEpoch,
+    activeCredits,
+    staking: stakingSummary && {
+      totalStaked: stakingSummary[0],
+      totalWeighted: stakingSummary[1],
+      totalRewards: stakingSummary[2],
+      activeStakes: stakingSummary[3],
+      pendingRewards: stakingSummary[4],
+    },
+    activeGameId,
+    isLoading: asPlayer1.isLoading || asPlayer2.isLoading || (gameIds.length > 0 && isLoadingGames),
+    isSyncing: asPlayer1.isSyncing || asPlayer2.isSyncing || shipsDestroyed.isSyncing,
+    error: asPlayer1.error ?? asPlayer2.error ?? shipsDestroyed.error,
+  }
+}
\ No newline at end of file
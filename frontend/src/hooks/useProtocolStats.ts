@@ -1,79 +1,189 @@
-import { useContractRead } from './useContract'
-import { formatEther } from 'viem'
-
-export function useProtocolStats() {
-  // Total supply of SHIP token
-  const { data: totalSupply } = useContractRead(
-    'BattleshipToken',
-    'totalSupply',
-    [],
-    { watch: true }
-  )
-
-  // Total staked in staking pool
-  const { data: totalStaked } = useContractRead(
-    'StakingPool',
-    'getTotalStaked',
-    [],
-    { watch: true }
-  )
-
-  // Current epoch from tokenomics
-  const { data: currentEpoch } = useContractRead(
-    'TokenomicsCore',
-    'getCurrentEpoch',
-    [],
-    { watch: true }
-  )
-
-  // Weekly emissions
-  const { data: weeklyEmissions } = useContractRead(
-    'TokenomicsCore',
-    'getWeeklyEmissionRate',
-    [],
-    { watch: true }
-  )
-
-  // Epoch progression data
-  const { data: epochStartTime } = useContractRead(
-    'TokenomicsCore',
-    'epochStartTime',
-    [],
-    { watch: true }
-  )
-
-  const { data: epochDuration } = useContractRead(
-    'TokenomicsCore',
-    'EPOCH_DURATION',
-    [],
-    { watch: true }
-  )
-
-  // Calculate epoch progress
-  const getEpochProgress = () => {
-    if (!epochStartTime || !epochDuration || !currentEpoch) return null
-    
-    const now = Math.floor(Date.now() / 1000)
-    const epochStart = Number(epochStartTime) + (Number(currentEpoch) - 1) * Number(epochDuration)
-    const epochEnd = epochStart + Number(epochDuration)
-    const progress = Math.min(100, Math.max(0, ((now - epochStart) / Number(epochDuration)) * 100))
-    const timeLeft = Math.max(0, epochEnd - now)
-    
-    return {
-      progress,
-      timeLeft,
-      epochStart,
-      epochEnd,
-      isComplete: progress >= 100
-    }
-  }
-
-  return {
-    totalSupply: totalSupply ? formatEther(totalSupply as bigint) : '0',
-    totalStaked: totalStaked ? formatEther(totalStaked as bigint) : '0',
-    currentEpoch: currentEpoch ? Number(currentEpoch) : 0,
-    weeklyEmissions: weeklyEmissions ? formatEther(weeklyEmissions as bigint) : '0',
-    epochProgress: getEpochProgress(),
-    isLoading: !totalSupply && !totalStaked && !currentEpoch && !weeklyEmissions,
-  }
+import { useMemo } from 'react'
+import { useContractRead, useContractReads, resultAt } from './useContract'
+import { formatEther } from 'viem'
+
+export function useProtocolStats() {
+  // Total supply of SHIP token
+  const { data: totalSupply } = useContractRead(
+    'BattleshipToken',
+    'totalSupply',
+    [],
+    { watch: true }
+  )
+
+  // Total staked in staking pool
+  const { data: totalStaked } = useContractRead(
+    'StakingPool',
+    'getTotalStaked',
+    [],
+    { watch: true }
+  )
+
+  // Current epoch from tokenomics
+  const { data: currentEpoch } = useContractRead(
+    'TokenomicsCore',
+    'getCurrentEpoch',
+    [],
+    { watch: true }
+  )
+
+  // Weekly emissions
+  const { data: weeklyEmissions } = useContractRead(
+    'GameConfig',
+    'getWeeklyEmissionRate',
+    [],
+    { watch: true }
+  )
+
+  // Epoch progression data
+  const { data: epochStartTime } = useContractRead(
+    'TokenomicsCore',
+    'genesisTimestamp',
+    [],
+    { watch: true }
+  )
+
+  const { data: epochDuration } = useContractRead(
+    'TokenomicsCore',
+    'EPOCH_DURATION',
+    [],
+    { watch: true }
+  )
+
+  // Calculate epoch progress
+  const getEpochProgress = () => {
+    if (!epochStartTime || !epochDuration || !currentEpoch) return null
+    
+    const now = Math.floor(Date.now() / 1000)
+    const epochStart = Number(epochStartTime) + (Number(currentEpoch) - 1) * Number(epochDuration)
+    const epochEnd = epochStart + Number(epochDuration)
+    const progress = Math.min(100, Math.max(0, ((now - epochStart) / Number(epochDuration)) * 100))
+    const timeLeft = Math.max(0, epochEnd - now)
+    
+    return {
+      progress,
+      timeLeft,
+      epochStart,
+      epochEnd,
+      isComplete: progress >= 100
+    }
+  }
+
+  return {
+    totalSupply: totalSupply ? formatEther(totalSupply) : '0',
+    totalStaked: totalStaked ? formatEther(totalStaked) : '0',
+    currentEpoch: currentEpoch ? Number(currentEpoch) : 0,
+    weeklyEmissions: weeklyEmissions ? formatEther(weeklyEmissions) : '0',
+    epochProgress: getEpochProgress(),
+    isLoading: !totalSupply && !totalStaked && !currentEpoch && !weeklyEmissions,
+  }
+}
+
+export interface EpochHistory {
+  epoch: number
+  totalCredits: bigint
+  emissions: bigint
+  liquidEmissions: bigint
+  vestedEmissions: bigint
+  // Recorded revenue; marketplace fees are booked into the lootbox bucket on chain
+  gameRevenue: bigint
+  lootboxRevenue: bigint
+  processed: boolean
+  // calculateDynamicEmissions split into the GameConfig base rate and the revenue bonus
+  dynamicEmissions: bigint
+  revenueBonus: bigint
+}
+
+/**
+ * Per-epoch emissions and revenue for the last `epochCount` epochs, plus the
+ * current staking and lootbox snapshots, for the analytics page.
+ */
+export function useProtocolHistory(epochCount: number) {
+  const { data: snapshot, isLoading: isSnapshotLoading } = useContractReads([
+    { contractName: 'TokenomicsCore', functionName: 'getSystemOverview' },
+    { contractName: 'TokenomicsCore', functionName: 'getWeeklyRevenue' },
+    { contractName: 'TokenomicsCore', functionName: 'emissionRevenueMultiplier' },
+    { contractName: 'GameConfig', functionName: 'getWeeklyEmissionRate' },
+    { contractName: 'StakingPool', functionName: 'getPoolStats' },
+    { contractName: 'LootboxSystem', functionName: 'getRevenueStats' },
+    { contractName: 'BattleshipToken', functionName: 'totalSupply' },
+  ], { watch: true })
+
+  const overview = resultAt(snapshot, 0)
+  const currentEpoch = overview ? Number(overview[0]) : 0
+  const baseEmissionRate = resultAt(snapshot, 3)
+
+  const epochs = useMemo(() => {
+    const first = Math.max(1, currentEpoch - epochCount + 1)
+    return currentEpoch > 0 ? Array.from({ length: currentEpoch - first + 1 }, (_, i) => first + i) : []
+  }, [currentEpoch, epochCount])
+
+  const { data: epochStats, isLoading: isHistoryLoading } = useContractReads(
+    epochs.map(epoch => ({ contractName: 'TokenomicsCore', functionName: 'getEpochStats', args: [BigInt(epoch)] } as const)),
+    { enabled: epochs.length > 0 }
+  )
+  const { data: emissionInfo } = useContractReads(
+    epochs.map(epoch => ({ contractName: 'TokenomicsCore', functionName: 'getEmissionInfo', args: [BigInt(epoch)] } as const)),
+    { enabled: epochs.length > 0 }
+  )
+  const { data: dynamicEmissionData } = useContractReads(
+    epochs.map(epoch => ({ contractName: 'TokenomicsCore', functionName: 'calculateDynamicEmissions', args: [BigInt(epoch)] } as const)),
+    { enabled: epochs.length > 0 }
+  )
+
+  const history: EpochHistory[] = useMemo(() => epochs.map((epoch, index) => {
+    const [totalCredits, emissions, gameRevenue, lootboxRevenue, processed] =
+      resultAt(epochStats, index) ?? [BigInt(0), BigInt(0), BigInt(0), BigInt(0), false]
+    const [, , liquidEmissions, vestedEmissions] =
+      resultAt(emissionInfo, index) ?? [BigInt(0), BigInt(0), BigInt(0), BigInt(0)]
+    const dynamicEmissions = resultAt(dynamicEmissionData, index) ?? BigInt(0)
+    const base = baseEmissionRate ?? BigInt(0)
+
+    return {
+      epoch,
+      totalCredits,
+      emissions,
+      liquidEmissions,
+      vestedEmissions,
+      gameRevenue,
+      lootboxRevenue,
+      processed,
+      dynamicEmissions,
+      revenueBonus: dynamicEmissions > base ? dynamicEmissions - base : BigInt(0),
+    }
+  }), [epochs, epochStats, emissionInfo, dynamicEmissionData, baseEmissionRate])
+
+  const weeklyRevenue = resultAt(snapshot, 1)
+  const poolStats = resultAt(snapshot, 4)
+  const lootboxStats = resultAt(snapshot, 5)
+
+  return {
+    history,
+    currentEpoch,
+    totalActiveCredits: overview?.[2],
+    nextEpochTime: overview ? Number(overview[3]) : undefined,
+    weeklyRevenue: weeklyRevenue && {
+      game: weeklyRevenue[0],
+      lootbox: weeklyRevenue[1],
+      total: weeklyRevenue[2],
+    },
+    // Percentage of the previous epoch's revenue added to the next epoch's emissions
+    emissionRevenueMultiplier: resultAt(snapshot, 2),
+    baseEmissionRate,
+    staking: poolStats && {
+      totalStaked: poolStats[0],
+      totalWeightedStake: poolStats[1],
+      totalRewardsDistributed: poolStats[2],
+      averageMultiplier: poolStats[5],
+      totalStakers: poolStats[6],
+    },
+    lootbox: lootboxStats && {
+      totalRevenue: lootboxStats[0],
+      dailyRevenue: lootboxStats[1],
+      tokens: lootboxStats[2],
+      tokenRevenues: lootboxStats[3],
+    },
+    totalSupply: resultAt(snapshot, 6),
+    isLoading: isSnapshotLoading || (epochs.length > 0 && isHistoryLoading),
+  }
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useAccount, useChainId } from 'wagmi'
+import { RARITIES, type NFTRarity, type NFTType } from './useNFTs'
+
+// Older pulls are dropped once the history grows past this
+const MAX_PULLS = 200
+
+export interface PullRecord {
+  lootboxId: string
+  transactionHash: string
+  openedAt: number
+  drops: { tokenId: string; type: NFTType; rarity: NFTRarity }[]
+}
+
+export interface PullStats {
+  lootboxesOpened: number
+  totalDrops: number
+  byRarity: Record<NFTRarity, number>
+  byType: Record<NFTType, number>
+}
+
+const storageKey = (chainId: number, address: string) => `pulls_${chainId}_${address.toLowerCase()}`
+
+function loadPulls(key: string): PullRecord[] {
+  try {
+    const stored = localStorage.getItem(key)
+    return stored ? JSON.parse(stored) as PullRecord[] : []
+  } catch {
+    // Corrupt entries are treated as an empty history
+    return []
+  }
+}
+
+function getPullStats(pulls: PullRecord[]): PullStats {
+  const byRarity = Object.fromEntries(RARITIES.map(rarity => [rarity, 0])) as Record<NFTRarity, number>
+  const byType: Record<NFTType, number> = { SHIP: 0, ACTION: 0, CAPTAIN: 0, CREW: 0 }
+  let totalDrops = 0
+
+  for (const pull of pulls) {
+    for (const drop of pull.drops) {
+      byRarity[drop.rarity]++
+      byType[drop.type]++
+      totalDrops++
+    }
+  }
+
+  return { lootboxesOpened: pulls.length, totalDrops, byRarity, byType }
+}
+
+/**
+ * Lootbox drops recorded in localStorage, per wallet and network.
+ * Nothing on chain links a token back to the box it came from, so this only
+ * knows about boxes opened from this browser.
+ */
+export function usePullHistory() {
+  const { address } = useAccount()
+  const chainId = useChainId()
+  const key = address ? storageKey(chainId, address) : null
+  const [pulls, setPulls] = useState<PullRecord[]>([])
+
+  useEffect(() => {
+    setPulls(key ? loadPulls(key) : [])
+  }, [key])
+
+  const save = useCallback((next: PullRecord[]) => {
+    if (key) localStorage.setItem(key, JSON.stringify(next))
+  }, [key])
+
+  const recordPull = useCallback((pull: PullRecord) => {
+    setPulls(prev => {
+      if (prev.some(p => p.transactionHash === pull.transactionHash)) return prev
+      const next = [pull, ...prev].slice(0, MAX_PULLS)
+      save(next)
+      return next
+    })
+  }, [save])
+
+  const clearHistory = useCallback(() => {
+    if (key) localStorage.removeItem(key)
+    setPulls([])
+  }, [key])
+
+  const stats = useMemo(() => getPullStats(pulls), [pulls])
+
+  return {
+    pulls,
+    stats,
+    recordPull,
+    clearHistory,
+  }
+}
\ No newline at end of file
@@ -0,0 +1,188 @@
+import { useMemo, useState } from 'react'
+import { useAccount, useChainId, useReadContracts } from 'wagmi'
+import { erc20Abi } from 'viem'
+import { useContractBatch, useContractRead, useContractReads, useContractWrite, resultAt, type WriteCall } from './useContract'
+import { useIndexedEvents } from './useIndexedEvents'
+
+export interface RevenueToken {
+  address: `0x${string}`
+  symbol: string
+  decimals: number
+  claimable: bigint
+}
+
+// One RewardsDistributed event. Epochs here count distributions, not weeks.
+export interface EmissionEpoch {
+  epoch: bigint
+  totalRewards: bigint
+  totalWeightedStake: bigint
+  // The connected wallet's current weighted stake against the epoch's total
+  estimatedShare: bigint
+}
+
+// RevenueDeposited events grouped by week (block.timestamp / 1 week + 1)
+export interface RevenueEpoch {
+  epoch: bigint
+  deposits: { token: `0x${string}`; amount: bigint }[]
+}
+
+export interface ClaimProgress {
+  current: number
+  total: number
+}
+
+/**
+ * StakingPool rewards for the connected wallet: SHIP emissions from
+ * getClaimableRewards and revenue in every token from getSupportedRevenueTokens,
+ * with per-epoch history from RewardsDistributed and RevenueDeposited in the
+ * local event index.
+ */
+export function useRevenueRewards() {
+  const { address } = useAccount()
+  const chainId = useChainId()
+  const [claimProgress, setClaimProgress] = useState<ClaimProgress | null>(null)
+  const [claimError, setClaimError] = useState<Error | null>(null)
+  const [isBatchClaiming, setIsBatchClaiming] = useState(false)
+
+  const { data: supportedTokens } = useContractRead('StakingPool', 'getSupportedRevenueTokens', [], { watch: true })
+  const tokenAddresses = useMemo(() => supportedTokens ?? [], [supportedTokens])
+
+  const { data: shipClaimable, refetch: refetchShip } = useContractRead(
+    'StakingPool',
+    'getClaimableRewards',
+    address ? [address] : undefined,
+    { enabled: !!address, watch: true }
+  )
+
+  const { data: stakingSummary } = useContractRead(
+    'StakingPool',
+    'getUserStakingSummary',
+    address ? [address] : undefined,
+    { enabled: !!address, watch: true }
+  )
+
+  const { data: claimable, refetch: refetchRevenue } = useContractReads(
+    address
+      ? tokenAddresses.map(token => ({
+        contractName: 'StakingPool',
+        functionName: 'calculateClaimableRevenue',
+        args: [address, token],
+      } as const))
+      : [],
+    { enabled: !!address && tokenAddresses.length > 0, watch: true }
+  )
+
+  const { data: symbols } = useReadContracts({
+    contracts: tokenAddresses.map(token => ({ address: token, chainId, abi: erc20Abi, functionName: 'symbol' } as const)),
+    query: { enabled: tokenAddresses.length > 0 },
+  })
+  const { data: decimals } = useReadContracts({
+    contracts: tokenAddresses.map(token => ({ address: token, chainId, abi: erc20Abi, functionName: 'decimals' } as const)),
+    query: { enabled: tokenAddresses.length > 0 },
+  })
+
+  const tokens: RevenueToken[] = useMemo(() => tokenAddresses.map((token, index) => ({
+    address: token,
+    symbol: symbols?.[index]?.result ?? `${token.slice(0, 6)}...`,
+    decimals: decimals?.[index]?.result ?? 18,
+    claimable: resultAt(claimable, index) ?? BigInt(0),
+  })), [tokenAddresses, symbols, decimals, claimable])
+
+  const distributions = useIndexedEvents('StakingPool', 'RewardsDistributed')
+  const deposits = useIndexedEvents('StakingPool', 'RevenueDeposited')
+
+  const userWeighted = stakingSummary?.[1] ?? BigInt(0)
+
+  const emissionEpochs: EmissionEpoch[] = useMemo(
+    () => distributions.events
+      .map(({ args: { epoch, totalRewards, totalWeightedStake } }) => ({
+        epoch,
+        totalRewards,
+        totalWeightedStake,
+        estimatedShare: totalWeightedStake > BigInt(0)
+          ? (totalRewards * userWeighted) / totalWeightedStake
+          : BigInt(0),
+      }))
+      .sort((a, b) => (a.epoch < b.epoch ? 1 : -1)),
+    [distributions.events, userWeighted]
+  )
+
+  const revenueEpochs: RevenueEpoch[] = useMemo(() => {
+    const byEpoch = new Map<bigint, Map<`0x${string}`, bigint>>()
+    deposits.events.forEach(({ args: { token, epoch, amount } }) => {
+      const totals = byEpoch.get(epoch) ?? new Map<`0x${string}`, bigint>()
+      totals.set(token, (totals.get(token) ?? BigInt(0)) + amount)
+      byEpoch.set(epoch, totals)
+    })
+    return Array.from(byEpoch.entries())
+      .map(([epoch, totals]) => ({
+        epoch,
+        deposits: Array.from(totals.entries()).map(([token, amount]) => ({ token, amount })),
+      }))
+      .sort((a, b) => (a.epoch < b.epoch ? 1 : -1))
+  }, [deposits.events])
+
+  const { writeAndWait: claim, isPending: isClaimPending } = useContractWrite('StakingPool')
+  const { canBatch, sendAndWait: claimBatch } = useContractBatch('StakingPool')
+
+  const refetch = () => {
+    refetchShip()
+    refetchRevenue()
+  }
+
+  const claimToken = async (token: `0x${string}`) => {
+    setClaimError(null)
+    try {
+      await claim('claimRevenue', [token])
+    } catch (err) {
+      setClaimError(err instanceof Error ? err : new Error(String(err)))
+    } finally {
+      refetch()
+    }
+  }
+
+  // There is no single entrypoint for both reward kinds, so claiming everything
+  // sends claimAllRewards and one claimRevenue per token with a balance: as one
+  // batch when the wallet supports EIP-5792, otherwise one transaction at a time
+  const claimEverything = async () => {
+    const calls: WriteCall<'StakingPool'>[] = []
+    if (shipClaimable && shipClaimable > BigInt(0)) calls.push({ functionName: 'claimAllRewards', args: [] })
+    tokens
+      .filter(token => token.claimable > BigInt(0))
+      .forEach(token => calls.push({ functionName: 'claimRevenue', args: [token.address] }))
+    if (calls.length === 0) return
+
+    setClaimError(null)
+    try {
+      if (canBatch) {
+        setIsBatchClaiming(true)
+        await claimBatch(calls)
+      } else {
+        for (let i = 0; i < calls.length; i++) {
+          setClaimProgress({ current: i + 1, total: calls.length })
+          await claim(calls[i].functionName, calls[i].args)
+        }
+      }
+    } catch (err) {
+      setClaimError(err instanceof Error ? err : new Error(String(err)))
+    } finally {
+      setIsBatchClaiming(false)
+      setClaimProgress(null)
+      refetch()
+    }
+  }
+
+  return {
+    tokens,
+    shipClaimable: shipClaimable ?? BigInt(0),
+    emissionEpochs,
+    revenueEpochs,
+    claimToken,
+    claimEverything,
+    claimProgress,
+    isClaiming: isClaimPending || isBatchClaiming || claimProgress !== null,
+    claimError,
+    isLoading: distributions.isLoading || deposits.isLoading,
+    eventsError: distributions.error ?? deposits.error,
+  }
+}
\ No newline at end of file
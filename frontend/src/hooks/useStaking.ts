@@ -1,123 +1,266 @@
-import { useAccount } from 'wagmi'
-import { useContractRead, useContractWrite } from './useContract'
-import { parseUnits, formatEther } from 'viem'
-
-export function useStaking() {
-  const { address } = useAccount()
-  
-  // Read current staking info
-  const { data: totalStaked, refetch: refetchStaked } = useContractRead(
-    'StakingPool',
-    'getTotalStaked',
-    address ? [address] : undefined,
-    { enabled: !!address }
-  )
-
-  const { data: stakingInfo, refetch: refetchInfo } = useContractRead(
-    'StakingPool',
-    'getStakingInfo',
-    address ? [address] : undefined,
-    { enabled: !!address }
-  )
-
-  // Get supported revenue tokens
-  const { data: supportedTokens } = useContractRead(
-    'StakingPool',
-    'getSupportedRevenueTokens',
-    [],
-    { watch: true }
-  )
-
-  // Get user's claimable rewards for each token
-  const { data: claimableRewards } = useContractRead(
-    'StakingPool',
-    'getClaimableRewards',
-    address ? [address] : undefined,
-    { enabled: !!address, watch: true }
-  )
-
-  // Write functions
-  const { 
-    writeContract: stake, 
-    isPending: isStaking,
-    isConfirmed: isStakeConfirmed,
-    error: stakeError 
-  } = useContractWrite('StakingPool')
-
-  const { 
-    writeContract: unstake, 
-    isPending: isUnstaking,
-    isConfirmed: isUnstakeConfirmed,
-    error: unstakeError 
-  } = useContractWrite('StakingPool')
-
-  const { 
-    writeContract: claimRewards, 
-    isPending: isClaiming,
-    isConfirmed: isClaimConfirmed,
-    error: claimError 
-  } = useContractWrite('StakingPool')
-
-  const { 
-    writeContract: emergencyUnstake, 
-    isPending: isEmergencyUnstaking,
-    error: emergencyUnstakeError 
-  } = useContractWrite('StakingPool')
-
-  const stakeTokens = async (amount: string, lockWeeks: number) => {
-    const amountWei = parseUnits(amount, 18)
-    return stake('stake', [amountWei, lockWeeks])
-  }
-
-  const unstakeTokens = async (stakeId: number) => {
-    return unstake('unstake', [stakeId])
-  }
-
-  const claimStakingRewards = async () => {
-    return claimRewards('claimRewards', [])
-  }
-
-  const emergencyUnstakeTokens = async (stakeId: number) => {
-    return emergencyUnstake('emergencyUnstake', [stakeId])
-  }
-
-  const claimSpecificToken = async (tokenAddress: string) => {
-    return claimRewards('claimRewards', [tokenAddress])
-  }
-
-  const refetchAll = () => {
-    refetchStaked()
-    refetchInfo()
-  }
-
-  return {
-    // Data
-    totalStaked: totalStaked as bigint | undefined,
-    stakingInfo,
-    supportedTokens: supportedTokens as string[] | undefined,
-    claimableRewards: claimableRewards as { token: string; amount: bigint }[] | undefined,
-    
-    // Actions
-    stakeTokens,
-    unstakeTokens,
-    claimStakingRewards,
-    emergencyUnstakeTokens,
-    claimSpecificToken,
-    refetchAll,
-    
-    // States
-    isStaking,
-    isUnstaking,
-    isClaiming,
-    isEmergencyUnstaking,
-    isStakeConfirmed,
-    isUnstakeConfirmed,
-    isClaimConfirmed,
-    
-    // Errors
-    stakeError,
-    unstakeError,
-    claimError,
-    emergencyUnstakeError,
-  }
+import { useMemo } from 'react'
+import { useAccount } from 'wagmi'
+import { useContractRead, useContractReads, useContractWrite, resultAt } from './useContract'
+import { parseUnits } from 'viem'
+
+// StakingPool.BASE_MULTIPLIER, the multiplier of an unboosted stake (1.0x)
+export const BASE_MULTIPLIER = 1000
+
+// One active stake from getUserStakes, with its live lock, reward and penalty state
+export interface StakePosition {
+  stakeId: bigint
+  amount: bigint
+  lockWeeks: bigint
+  multiplier: bigint
+  unlockTime: bigint
+  isLocked: boolean
+  pendingRewards: bigint
+  // Percentage unstake would withhold right now; drops to zero over the last weeks of the lock
+  penaltyPercent: bigint
+}
+
+// Tokens unstake(stakeId, amount) would withhold at the given penalty percentage
+export function penaltyAmount(amount: bigint, penaltyPercent: bigint) {
+  return (amount * penaltyPercent) / BigInt(100)
+}
+
+export function useStaking() {
+  const { address } = useAccount()
+  
+  // Read current staking info
+  const { data: totalStaked, refetch: refetchStaked } = useContractRead(
+    'StakingPool',
+    'getStakedAmount',
+    address ? [address] : undefined,
+    { enabled: !!address }
+  )
+
+  const { data: stakingInfo, refetch: refetchInfo } = useContractRead(
+    'StakingPool',
+    'getUserStakingSummary',
+    address ? [address] : undefined,
+    { enabled: !!address, watch: true }
+  )
+
+  // Active stakes only; fully unstaked positions are dropped by the contract
+  const { data: userStakes, refetch: refetchStakes } = useContractRead(
+    'StakingPool',
+    'getUserStakes',
+    address ? [address] : undefined,
+    { enabled: !!address, watch: true }
+  )
+
+  const stakeIds = useMemo(() => userStakes?.[0] ?? [], [userStakes])
+
+  // Lock status, pending rewards and withdrawal penalty for each stake
+  const { data: lockStatus, refetch: refetchLocks } = useContractReads(
+    stakeIds.map(stakeId => ({ contractName: 'StakingPool', functionName: 'isStakeLocked', args: [stakeId] } as const)),
+    { enabled: stakeIds.length > 0, watch: true }
+  )
+  const { data: pendingRewards, refetch: refetchPending } = useContractReads(
+    stakeIds.map(stakeId => ({ contractName: 'StakingPool', functionName: 'calculatePendingRewards', args: [stakeId] } as const)),
+    { enabled: stakeIds.length > 0, watch: true }
+  )
+  const { data: penalties, refetch: refetchPenalties } = useContractReads(
+    stakeIds.map(stakeId => ({ contractName: 'StakingPool', functionName: 'calculateWithdrawalPenalty', args: [stakeId] } as const)),
+    { enabled: stakeIds.length > 0, watch: true }
+  )
+
+  const { data: emergencyConfig } = useContractReads([
+    { contractName: 'StakingPool', functionName: 'emergencyWithdrawEnabled' },
+    { contractName: 'StakingPool', functionName: 'emergencyWithdrawPenalty' },
+  ], { watch: true })
+
+  const positions: StakePosition[] = useMemo(() => {
+    if (!userStakes) return []
+    const [ids, amounts, lockWeeks, multipliers, unlockTimes] = userStakes
+
+    return ids.map((stakeId, index) => {
+      const lock = resultAt(lockStatus, index)
+      return {
+        stakeId,
+        amount: amounts[index],
+        lockWeeks: lockWeeks[index],
+        multiplier: multipliers[index],
+        unlockTime: unlockTimes[index],
+        isLocked: lock?.[0] ?? false,
+        pendingRewards: resultAt(pendingRewards, index) ?? BigInt(0),
+        penaltyPercent: resultAt(penalties, index) ?? BigInt(0),
+      }
+    })
+  }, [userStakes, lockStatus, pendingRewards, penalties])
+
+  // Get supported revenue tokens
+  const { data: supportedTokens } = useContractRead(
+    'StakingPool',
+    'getSupportedRevenueTokens',
+    [],
+    { watch: true }
+  )
+
+  // Get user's claimable rewards for each token
+  const { data: claimableRewards } = useContractRead(
+    'StakingPool',
+    'getClaimableRewards',
+    address ? [address] : undefined,
+    { enabled: !!address, watch: true }
+  )
+
+  // Write functions
+  const { 
+    writeAndWait: stake, 
+    isPending: isStakePending,
+    isConfirming: isStakeConfirming,
+    isConfirmed: isStakeConfirmed,
+    error: stakeError 
+  } = useContractWrite('StakingPool')
+
+  const { 
+    writeContract: unstake, 
+    isPending: isUnstaking,
+    isConfirmed: isUnstakeConfirmed,
+    error: unstakeError 
+  } = useContractWrite('StakingPool')
+
+  const { 
+    writeContract: claimRewards, 
+    isPending: isClaiming,
+    isConfirmed: isClaimConfirmed,
+    error: claimError 
+  } = useContractWrite('StakingPool')
+
+  const { 
+    writeContract: emergencyUnstake, 
+    isPending: isEmergencyUnstaking,
+    error: emergencyUnstakeError 
+  } = useContractWrite('StakingPool')
+
+  // Resolves once the stake is mined
+  const stakeTokens = async (amount: string, lockWeeks: number) => {
+    const amountWei = parseUnits(amount, 18)
+    return stake('stake', [amountWei, BigInt(lockWeeks)])
+  }
+
+  // An amount of zero withdraws the whole stake
+  const unstakeTokens = async (stakeId: bigint, amount: bigint = BigInt(0)) => {
+    return unstake('unstake', [stakeId, amount])
+  }
+
+  const claimStakingRewards = async () => {
+    return claimRewards('claimAllRewards', [])
+  }
+
+  const emergencyUnstakeTokens = async (stakeId: bigint) => {
+    return emergencyUnstake('emergencyUnstake', [stakeId])
+  }
+
+  const claimSpecificToken = async (tokenAddress: `0x${string}`) => {
+    return claimRewards('claimRevenue', [tokenAddress])
+  }
+
+  const refetchAll = () => {
+    refetchStaked()
+    refetchInfo()
+    refetchStakes()
+    refetchLocks()
+    refetchPending()
+    refetchPenalties()
+  }
+
+  return {
+    // Data
+    totalStaked,
+    stakingInfo,
+    positions,
+    emergencyWithdrawEnabled: resultAt(emergencyConfig, 0) ?? false,
+    emergencyWithdrawPenalty: resultAt(emergencyConfig, 1),
+    supportedTokens,
+    // Pending SHIP across all stakes; revenue tokens are in useRevenueRewards
+    claimableRewards,
+    
+    // Actions
+    stakeTokens,
+    unstakeTokens,
+    claimStakingRewards,
+    emergencyUnstakeTokens,
+    claimSpecificToken,
+    refetchAll,
+    
+    // States
+    isStaking: isStakePending || isStakeConfirming,
+    isUnstaking,
+    isClaiming,
+    isEmergencyUnstaking,
+    isStakeConfirmed,
+    isUnstakeConfirmed,
+    isClaimConfirmed,
+    
+    // Errors
+    stakeError,
+    unstakeError,
+    claimError,
+    emergencyUnstakeError,
+  }
+}
+
+/**
+ * What StakingPool would give for a new stake of `amount` locked for `lockWeeks`.
+ * estimateAPY prices the stake against the current pool, so the projected epoch
+ * reward also adds the new weight to totalWeightedStake to account for dilution.
+ */
+export function useStakeQuote(amount: string, lockWeeks: number) {
+  const { data: config, isLoading: isConfigLoading } = useContractRead('StakingPool', 'getSystemConfig')
+
+  const { data: quote, isLoading: isQuoteLoading } = useContractReads([
+    { contractName: 'StakingPool', functionName: 'getStakingMultiplier', args: [BigInt(lockWeeks)] },
+    { contractName: 'StakingPool', functionName: 'estimateAPY', args: [BigInt(lockWeeks)] },
+    { contractName: 'StakingPool', functionName: 'getCurrentRewardRate' },
+    { contractName: 'StakingPool', functionName: 'getTotalStaked' },
+    { contractName: 'StakingPool', functionName: 'getPoolStats' },
+  ], { enabled: lockWeeks > 0, watch: true })
+
+  return useMemo(() => {
+    const [minStake, maxStake, minLockWeeks, maxLockWeeks, baseMultiplier] = config ?? []
+    const multiplier = resultAt(quote, 0)
+    const apy = resultAt(quote, 1)
+    const rewardRate = resultAt(quote, 2)
+    const totalStaked = resultAt(quote, 3)
+    const totalWeightedStake = resultAt(quote, 4)?.[1]
+
+    let amountWei = BigInt(0)
+    try {
+      amountWei = amount ? parseUnits(amount, 18) : BigInt(0)
+    } catch {
+      // Not a number yet, quote nothing
+    }
+
+    const weighted = multiplier && baseMultiplier ? (amountWei * multiplier) / baseMultiplier : BigInt(0)
+
+    // getCurrentRewardRate is the epoch pool per unit of weighted stake (scaled by 1e18);
+    // with nothing staked yet it is zero and the pool size can't be recovered from it
+    let projectedEpochRewards: bigint | undefined
+    if (rewardRate !== undefined && totalWeightedStake !== undefined && totalWeightedStake > BigInt(0)) {
+      const rewardPool = (rewardRate * totalWeightedStake) / BigInt(1e18)
+      projectedEpochRewards = weighted > BigInt(0) ? (rewardPool * weighted) / (totalWeightedStake + weighted) : BigInt(0)
+    }
+
+    // Share of all staked SHIP after this stake, before weighting
+    const poolShare = totalStaked !== undefined && amountWei > BigInt(0)
+      ? Number((amountWei * BigInt(10000)) / (totalStaked + amountWei)) / 100
+      : 0
+
+    return {
+      minStake,
+      maxStake,
+      minLockWeeks: minLockWeeks !== undefined ? Number(minLockWeeks) : undefined,
+      maxLockWeeks: maxLockWeeks !== undefined ? Number(maxLockWeeks) : undefined,
+      multiplier,
+      // estimateAPY is a whole percentage (100 = 100%)
+      apy,
+      projectedEpochRewards,
+      poolShare,
+      totalStaked,
+      isLoading: isConfigLoading || isQuoteLoading,
+    }
+  }, [config, quote, amount, isConfigLoading, isQuoteLoading])
 }
\ No newline at end of file
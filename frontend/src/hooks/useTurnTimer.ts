@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react'
+import { useBlock, useChainId } from 'wagmi'
+import { useContractRead, useContractReads, resultAt } from './useContract'
+
+/**
+ * Turn clock for a game, driven by GameConfig's turn timer and the chain's own clock.
+ * The local clock is corrected by the offset to the latest block's timestamp, so a
+ * skewed system clock does not make force-skip look available early (or late).
+ */
+export function useTurnTimer(gameId: number, lastMoveTime?: bigint) {
+  const chainId = useChainId()
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000))
+  const [clockOffset, setClockOffset] = useState(0)
+
+  const { data: config } = useContractReads([
+    { contractName: 'GameConfig', functionName: 'getTurnTimer' },
+    { contractName: 'GameConfig', functionName: 'getMaxSkipTurns' },
+  ])
+  const turnTimer = Number(resultAt(config, 0) ?? 0)
+  const maxSkipTurns = resultAt(config, 1)
+
+  // What forceSkipTurn will check, evaluated at the latest block
+  const { data: timerExpired, refetch: refetchExpired } = useContractRead(
+    'GameLogic',
+    'checkTurnTimer',
+    [BigInt(gameId)],
+    { enabled: !!gameId, watch: true }
+  )
+
+  const { data: latestBlock } = useBlock({ chainId, watch: true })
+
+  useEffect(() => {
+    if (!latestBlock) return
+    setClockOffset(Number(latestBlock.timestamp) - Math.floor(Date.now() / 1000))
+  }, [latestBlock])
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const chainNow = now + clockOffset
+  const deadline = lastMoveTime !== undefined && turnTimer > 0 ? Number(lastMoveTime) + turnTimer : undefined
+  const timeLeft = deadline !== undefined ? Math.max(0, deadline - chainNow) : 0
+
+  return {
+    turnTimer,
+    maxSkipTurns,
+    timeLeft,
+    // checkTurnTimer uses a strict comparison, so the clock reaching zero is not quite enough
+    isExpired: timerExpired ?? (deadline !== undefined && chainNow > deadline),
+    clockOffset,
+    refetch: refetchExpired,
+  }
+}
+
+// forceSkipTurn compares the skip count from before the skip, so the skip that
+// happens once a player already has maxSkipTurns is the one that forfeits
+export function skipsUntilForfeit(skippedTurns: number, maxSkipTurns: number) {
+  return Math.max(0, maxSkipTurns - skippedTurns) + 1
+}
\ No newline at end of file
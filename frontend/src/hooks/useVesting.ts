@@ -0,0 +1,109 @@
+import { useMemo } from 'react'
+import { useAccount } from 'wagmi'
+import { useContractRead, useContractReads, useContractWrite, resultAt } from './useContract'
+
+// TokenomicsCore.VestingEntry
+export interface VestingEntry {
+  amount: bigint
+  startEpoch: bigint
+  claimed: bigint
+}
+
+export interface VestingSchedule extends VestingEntry {
+  // Unix seconds; the entry is fully vested once the stored epoch reaches startEpoch + VESTING_DURATION
+  startTime: number
+  endTime: number
+  vested: bigint
+  claimable: bigint
+  locked: bigint
+}
+
+/**
+ * Same rounding as TokenomicsCore._calculateVestedAmount: vesting moves in whole
+ * epochs and is measured against the contract's stored currentEpoch, which only
+ * advances when a state-changing call runs _updateEpoch.
+ */
+export function calculateVestedAmount(entry: VestingEntry, currentEpoch: bigint, vestingDuration: bigint) {
+  const epochsPassed = currentEpoch > entry.startEpoch ? currentEpoch - entry.startEpoch : BigInt(0)
+  if (epochsPassed >= vestingDuration) return entry.amount
+  return (entry.amount * epochsPassed) / vestingDuration
+}
+
+export function useVesting() {
+  const { address } = useAccount()
+
+  const { data: history } = useContractRead(
+    'TokenomicsCore',
+    'getPlayerVestingHistory',
+    address ? [address] : undefined,
+    { enabled: !!address, watch: true }
+  )
+
+  const { data: claimableOnChain } = useContractRead(
+    'TokenomicsCore',
+    'getClaimableVestedTokens',
+    address ? [address] : undefined,
+    { enabled: !!address, watch: true }
+  )
+
+  const { data: epochData } = useContractReads([
+    { contractName: 'TokenomicsCore', functionName: 'getSystemOverview' },
+    { contractName: 'TokenomicsCore', functionName: 'getCurrentEpoch' },
+    { contractName: 'TokenomicsCore', functionName: 'VESTING_DURATION' },
+    { contractName: 'TokenomicsCore', functionName: 'EPOCH_DURATION' },
+  ], { watch: true })
+
+  const { writeContract: claim, isPending: isClaiming, isConfirming, error: claimError } = useContractWrite('TokenomicsCore')
+
+  const overview = resultAt(epochData, 0)
+  const storedEpoch = overview?.[0]
+  const timeEpoch = resultAt(epochData, 1)
+  const vestingDuration = resultAt(epochData, 2)
+  const epochDuration = resultAt(epochData, 3)
+
+  const schedules: VestingSchedule[] = useMemo(() => {
+    if (!history || !overview || storedEpoch === undefined || !vestingDuration || !epochDuration) return []
+
+    // getSystemOverview reports the stored epoch's start; walk back to genesis
+    const genesis = overview[1] - (storedEpoch - BigInt(1)) * epochDuration
+
+    return history.map(entry => {
+      const vested = calculateVestedAmount(entry, storedEpoch, vestingDuration)
+      const startTime = genesis + (entry.startEpoch - BigInt(1)) * epochDuration
+      return {
+        amount: entry.amount,
+        startEpoch: entry.startEpoch,
+        claimed: entry.claimed,
+        startTime: Number(startTime),
+        endTime: Number(startTime + vestingDuration * epochDuration),
+        vested,
+        claimable: vested > entry.claimed ? vested - entry.claimed : BigInt(0),
+        locked: entry.amount - vested,
+      }
+    })
+  }, [history, overview, storedEpoch, vestingDuration, epochDuration])
+
+  const computedClaimable = schedules.reduce((sum, schedule) => sum + schedule.claimable, BigInt(0))
+
+  const claimVested = () => {
+    if (!address) return
+    claim('claimVestedTokens', [address])
+  }
+
+  return {
+    schedules,
+    // Exactly what claimVestedTokens pays; the per-entry numbers are derived client-side
+    claimable: claimableOnChain ?? computedClaimable,
+    // The two disagree only while the reads straddle a block that changed vesting
+    isReconciled: claimableOnChain === undefined || claimableOnChain === computedClaimable,
+    totalVesting: schedules.reduce((sum, schedule) => sum + schedule.amount, BigInt(0)),
+    totalLocked: schedules.reduce((sum, schedule) => sum + schedule.locked, BigInt(0)),
+    storedEpoch,
+    // Vesting only counts the stored epoch; time-wise later epochs don't unlock anything until it is synced
+    epochsBehind: storedEpoch !== undefined && timeEpoch !== undefined && timeEpoch > storedEpoch ? Number(timeEpoch - storedEpoch) : 0,
+    nextEpochTime: overview ? Number(overview[3]) : undefined,
+    claimVested,
+    isClaiming: isClaiming || isConfirming,
+    claimError,
+  }
+}
\ No newline at end of file
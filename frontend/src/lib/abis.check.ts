@@ -0,0 +1,53 @@
+// Compile-time checks for the typed contract layer; nothing in this file runs.
+// `npm run typecheck` (and so `npm test`) fails when any component names a function that is missing
+// from the contract ABI, and fails here if the wrappers stop rejecting such names.
+
+import { resultAt, useContractRead, useContractReads, useContractWrite, type ContractCall } from '@/hooks/useContract'
+
+export function useAbiTypeChecks() {
+  const lootbox = useContractWrite('LootboxSystem')
+  const game = useContractWrite('BattleshipGame')
+
+  // Functions the frontend used to call that the contracts never had
+  // @ts-expect-error LootboxSystem exposes buyLootbox, not purchaseLootbox
+  lootbox.writeContract('purchaseLootbox', [])
+  // @ts-expect-error LootboxSystem exposes openLootbox(lootboxId), not openLootboxes
+  lootbox.writeContract('openLootboxes', [BigInt(1)])
+  // @ts-expect-error BattleshipGame has no action card entrypoint
+  game.writeContract('useActionCard', [BigInt(1), BigInt(1), 0, 0])
+  // @ts-expect-error The ante setter is updateAnteAmount
+  game.writeContract('setAnteAmount', [0, BigInt(1)])
+  // @ts-expect-error StakingPool has getUserStakingSummary, not getStakingInfo
+  useContractRead('StakingPool', 'getStakingInfo', [])
+
+  // Views are not writable and vice versa
+  // @ts-expect-error anteAmounts is a view
+  game.writeContract('anteAmounts', [0])
+  // @ts-expect-error createGame is not a view
+  useContractRead('BattleshipGame', 'createGame', [0])
+
+  // Argument types come from the ABI as well
+  // @ts-expect-error gameId is a uint256
+  game.writeContract('joinGame', [1])
+
+  const calls: ContractCall[] = [
+    { contractName: 'GameState', functionName: 'nextGameId' },
+    // @ts-expect-error Batched reads are checked against their own contract
+    { contractName: 'GameState', functionName: 'getShipInfo' },
+    // @ts-expect-error Batched args are checked too; gameId is a uint256
+    { contractName: 'BattleshipGame', functionName: 'getGameInfo', args: [1] },
+    // @ts-expect-error and cannot be left out when the function takes inputs
+    { contractName: 'BattleshipGame', functionName: 'getGameInfo' },
+  ]
+
+  // Batched results are typed per call, in call order
+  const { data } = useContractReads([
+    { contractName: 'GameState', functionName: 'nextGameId' },
+    { contractName: 'GameConfig', functionName: 'getPauseStatus' },
+  ])
+  const nextGameId: bigint | undefined = resultAt(data, 0)
+  // @ts-expect-error getPauseStatus returns (bool, string)
+  const pauseStatus: bigint | undefined = resultAt(data, 1)
+
+  return { calls, nextGameId, pauseStatus }
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+// Action card footprints from ActionNFTManager's ActionPattern.
+// targetCells holds uint8 offsets relative to the target, but nothing on chain
+// decodes them. These follow scripts/configure-action-templates.js, where 0 is
+// the target itself and [0, 1, 2, 3, 4] is "center + 4 adjacent".
+
+import type { ChainCellState } from '@/hooks/useBattleEvents'
+
+// Indexed by targetCells value; offsets outside this table are ignored
+export const PATTERN_OFFSETS: readonly (readonly [number, number])[] = [
+  [0, 0],   // target
+  [0, -1],  // north
+  [1, 0],   // east
+  [0, 1],   // south
+  [-1, 0],  // west
+  [1, -1],  // north-east
+  [1, 1],   // south-east
+  [-1, 1],  // south-west
+  [-1, -1], // north-west
+]
+
+export interface ActionPattern {
+  targetCells: readonly number[]
+  damage: number
+  range: number
+  category: number
+}
+
+export interface Cell {
+  x: number
+  y: number
+}
+
+// Distinct offsets from the target, dropping values with no known meaning
+export function patternOffsets(pattern: ActionPattern): Cell[] {
+  const offsets = new Set(pattern.targetCells.filter(offset => offset < PATTERN_OFFSETS.length))
+  return Array.from(offsets).map(offset => ({ x: PATTERN_OFFSETS[offset][0], y: PATTERN_OFFSETS[offset][1] }))
+}
+
+// Cells a card hits when aimed at (x, y), clipped to the board
+export function actionFootprint(pattern: ActionPattern, x: number, y: number, gridSize: number): Cell[] {
+  return patternOffsets(pattern)
+    .map(delta => ({ x: x + delta.x, y: y + delta.y }))
+    .filter(cell => cell.x >= 0 && cell.y >= 0 && cell.x < gridSize && cell.y < gridSize)
+}
+
+/**
+ * Which enemy cells are within `range` of the player's fleet. The contracts do
+ * not say where range is measured from, so it is counted in king moves from
+ * any of the player's ship cells that are still afloat, with both boards
+ * overlaid on the same coordinates.
+ */
+export function cellsInRange(ownGrid: readonly (readonly ChainCellState[])[], range: number): boolean[][] {
+  const shipCells: Cell[] = []
+  ownGrid.forEach((row, y) => row.forEach((state, x) => {
+    if (state === 'SHIP' || state === 'HIT') shipCells.push({ x, y })
+  }))
+
+  return ownGrid.map((row, y) => row.map((_, x) =>
+    shipCells.some(ship => Math.max(Math.abs(ship.x - x), Math.abs(ship.y - y)) <= range)
+  ))
+}
\ No newline at end of file
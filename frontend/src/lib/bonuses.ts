@@ -0,0 +1,50 @@
+// Attack damage bonuses, mirroring GameLogic.applyCaptainBonus and
+// applyCrewBonuses. Both work in uint8 with integer division.
+
+import { CAPTAIN_ABILITIES, CREW_TYPES, type CaptainInfo, type CrewInfo } from '@/hooks/useNFTs'
+
+// applyCrewBonuses ignores crew past the third in a single attack
+export const MAX_CREW_PER_ATTACK = 3
+
+export function captainBonus(captain: CaptainInfo, baseDamage: number): number {
+  switch (CAPTAIN_ABILITIES[captain.ability]) {
+    case 'DAMAGE_BOOST': return Math.floor((baseDamage * captain.abilityPower) / 100)
+    // Flat bonus for luck
+    case 'LUCK_BOOST': return Math.floor(captain.abilityPower / 10)
+    default: return 0
+  }
+}
+
+export function crewBonus(crew: CrewInfo): number {
+  switch (CREW_TYPES[crew.crewType]) {
+    case 'GUNNER': return Math.floor(crew.skillLevel / 2)
+    case 'ENGINEER': return Math.floor(crew.efficiency / 10)
+    default: return 0
+  }
+}
+
+export interface AttackCrew {
+  tokenId: bigint
+  info: CrewInfo
+  // CrewNFTManager.canUseCrew: stamina left
+  canUse: boolean
+}
+
+/**
+ * Damage of the next defaultAttack. The captain's bonus is taken from the base
+ * damage; crew without stamina still take one of the three slots but add nothing.
+ */
+export function attackDamage(baseDamage: number, captain: CaptainInfo | undefined, useCaptain: boolean, crew: AttackCrew[]) {
+  const captainPart = useCaptain && captain ? captainBonus(captain, baseDamage) : 0
+  const crewParts = crew.slice(0, MAX_CREW_PER_ATTACK).map(member => ({
+    tokenId: member.tokenId,
+    bonus: member.canUse ? crewBonus(member.info) : 0,
+  }))
+
+  return {
+    base: baseDamage,
+    captain: captainPart,
+    crew: crewParts,
+    total: baseDamage + captainPart + crewParts.reduce((sum, part) => sum + part.bonus, 0),
+  }
+}
\ No newline at end of file
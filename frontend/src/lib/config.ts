@@ -1,43 +1,127 @@
-import { Chain } from 'wagmi/chains'
-
-// Sonic Blaze Testnet Configuration
-export const sonicBlaze: Chain = {
-  id: 57054,
-  name: 'Sonic Blaze Testnet',
-  nativeCurrency: {
-    decimals: 18,
-    name: 'Sonic',
-    symbol: 'S',
-  },
-  rpcUrls: {
-    default: {
-      http: ['https://rpc.soniclabs.com'],
-      webSocket: ['wss://rpc.soniclabs.com'],
-    },
-  },
-  blockExplorers: {
-    default: {
-      name: 'Sonic Explorer',
-      url: 'https://explorer.soniclabs.com',
-    },
-  },
-  testnet: true,
-}
-
-// Contract addresses from deployment
-export const CONTRACT_ADDRESSES = {
-  BattleshipToken: '0x49Dcf31d2e807F2DdC25357EBaE1C40EC29aF6Cd',
-  GameConfig: '0x1cF2808BE19AFbbC28fD9B7DEA6DB822BE472971',
-  ShipNFTManager: '0x90932BC326bCc7eb61007E373648bE6352E71a90',
-  ActionNFTManager: '0xF339ff707Ee7Ced2b4F1823A3C4a069D23AFA56A',
-  CaptainNFTManager: '0xFa5b0033df93a2c5c0CDc7374d88Bd4a824032f2',
-  CrewNFTManager: '0x17e9BDFD27FFd16Bf7543180534dF28f8F64d998',
-  StakingPool: '0x927631B321C09635f9E814CAe9D53ED9A831A5E4',
-  TokenomicsCore: '0x8476CA865B651F20dAfbb3eddE301BC5B933aCFF',
-  GameState: '0x7D9e8Eda47cCe0F3dD274cCa6c349dB0C0cc8743',
-  GameLogic: '0x24a04C8aD00E2b5eBb04E8390c3feD6FCC5d83aF',
-  BattleshipGame: '0x1aB0C9a6B5635F1B3109a6Fa5dC22A37ded2a9fA',
-  LootboxSystem: '0x3Bb7Ae609779A8393A0A96d0F4516E813D857C4E',
-} as const
-
-export type ContractName = keyof typeof CONTRACT_ADDRESSES
\ No newline at end of file
+import { Chain, hardhat } from 'wagmi/chains'
+import { isAddress } from 'viem'
+import localhostDeployment from './deployments/localhost.json'
+import sonicBlazeDeployment from './deployments/sonicBlaze.json'
+import sonicDeployment from './deployments/sonic.json'
+
+// Sonic Blaze Testnet Configuration
+export const sonicBlaze: Chain = {
+  id: 57054,
+  name: 'Sonic Blaze Testnet',
+  nativeCurrency: {
+    decimals: 18,
+    name: 'Sonic',
+    symbol: 'S',
+  },
+  rpcUrls: {
+    default: {
+      http: ['https://rpc.blaze.soniclabs.com'],
+    },
+  },
+  blockExplorers: {
+    default: {
+      name: 'SonicScan Testnet',
+      url: 'https://testnet.sonicscan.org',
+    },
+  },
+  testnet: true,
+}
+
+// Sonic mainnet, used once contracts are deployed there
+export const sonic: Chain = {
+  id: 146,
+  name: 'Sonic',
+  nativeCurrency: {
+    decimals: 18,
+    name: 'Sonic',
+    symbol: 'S',
+  },
+  rpcUrls: {
+    default: {
+      http: ['https://rpc.soniclabs.com'],
+    },
+  },
+  blockExplorers: {
+    default: {
+      name: 'SonicScan',
+      url: 'https://sonicscan.org',
+    },
+  },
+}
+
+export const CONTRACT_NAMES = [
+  'BattleshipToken',
+  'GameConfig',
+  'ShipNFTManager',
+  'ActionNFTManager',
+  'CaptainNFTManager',
+  'CrewNFTManager',
+  'StakingPool',
+  'TokenomicsCore',
+  'GameState',
+  'GameLogic',
+  'BattleshipGame',
+  'LootboxSystem',
+] as const
+
+export type ContractName = typeof CONTRACT_NAMES[number]
+export type ContractAddresses = Record<ContractName, `0x${string}`>
+
+// Same shape as the deployment-*.json files written by scripts/deploy.js
+interface DeploymentFile {
+  network: string
+  chainId: number
+  timestamp?: string
+  deployer?: string
+  // Block BattleshipToken was deployed in; the event indexer starts there
+  deploymentBlock?: number
+  contracts: Partial<Record<string, string>>
+}
+
+// Address books written by scripts/deploy.js, one per network
+const DEPLOYMENT_FILES: { chain: Chain; deployment: DeploymentFile }[] = [
+  { chain: hardhat, deployment: localhostDeployment },
+  { chain: sonicBlaze, deployment: sonicBlazeDeployment },
+  { chain: sonic, deployment: sonicDeployment },
+]
+
+const toAddressBook = ({ contracts }: DeploymentFile): ContractAddresses | null => {
+  if (!CONTRACT_NAMES.every(name => isAddress(contracts[name] ?? ''))) return null
+  return Object.fromEntries(CONTRACT_NAMES.map(name => [name, contracts[name]])) as ContractAddresses
+}
+
+// Only networks with a complete deployment are offered to the wallet
+const DEPLOYMENTS = DEPLOYMENT_FILES.flatMap(({ chain, deployment }) => {
+  const addresses = toAddressBook(deployment)
+  return addresses ? [{ chain, addresses, deploymentBlock: deployment.deploymentBlock }] : []
+})
+
+export const SUPPORTED_CHAINS = DEPLOYMENTS.map(({ chain }) => chain)
+
+// NEXT_PUBLIC_DEFAULT_CHAIN_ID picks the network used before a wallet connects
+const requestedChainId = Number(process.env.NEXT_PUBLIC_DEFAULT_CHAIN_ID)
+export const DEFAULT_CHAIN =
+  SUPPORTED_CHAINS.find(chain => chain.id === requestedChainId) ?? SUPPORTED_CHAINS[0] ?? sonicBlaze
+
+export function isSupportedChain(chainId?: number): boolean {
+  return DEPLOYMENTS.some(({ chain }) => chain.id === chainId)
+}
+
+function getDeployment(chainId?: number) {
+  const deployment = DEPLOYMENTS.find(({ chain }) => chain.id === chainId)
+    ?? DEPLOYMENTS.find(({ chain }) => chain.id === DEFAULT_CHAIN.id)
+  if (!deployment) {
+    throw new Error('No complete contract deployment found in src/lib/deployments')
+  }
+  return deployment
+}
+
+export function getContractAddresses(chainId?: number): ContractAddresses {
+  return getDeployment(chainId).addresses
+}
+
+// Undefined for address books written before scripts/deploy.js recorded the block
+export function getDeploymentBlock(chainId?: number): bigint | undefined {
+  const { deploymentBlock } = getDeployment(chainId)
+  return deploymentBlock === undefined ? undefined : BigInt(deploymentBlock)
+}
\ No newline at end of file
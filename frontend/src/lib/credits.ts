@@ -0,0 +1,142 @@
+// Credit decay and emission share, mirroring TokenomicsCore._calculateCreditValue
+// and the per-epoch loop in claimEmissions / getClaimableEmissions.
+//
+// Deliberately untested: the frontend has no test runner and `npm test` only
+// type-checks. After changing the math here, compare the credits panel with
+// TokenomicsCore.getClaimableEmissions on a local chain, for credits 0 to 5 epochs
+// old and with the emission cap both enabled and disabled.
+
+// Epochs a credit keeps its full value
+export const FULL_CREDIT_EPOCHS = 2
+
+// Epochs over which it then decays linearly to zero
+export const DECAY_EPOCHS = 3
+
+export const TOTAL_CREDIT_LIFETIME = FULL_CREDIT_EPOCHS + DECAY_EPOCHS
+
+// Share of every emission claim paid out immediately; the rest becomes a vesting entry
+export const LIQUID_PERCENTAGE = 30
+
+// TokenomicsCore.CreditEntry
+export interface CreditEntry {
+  amount: bigint
+  epoch: bigint
+  claimed: boolean
+}
+
+// TokenomicsCore.emissionCapEnabled and maxEmissionPercentage
+export interface EmissionCap {
+  enabled: boolean
+  percentage: bigint
+}
+
+/**
+ * Value of a credit awarded in `creditEpoch` as seen at `currentEpoch`.
+ * The contract measures age against its stored epoch, not the wall clock.
+ */
+export function calculateCreditValue(amount: bigint, creditEpoch: bigint, currentEpoch: bigint): bigint {
+  if (creditEpoch > currentEpoch) return BigInt(0)
+
+  const age = currentEpoch - creditEpoch
+  if (age < BigInt(FULL_CREDIT_EPOCHS)) return amount
+  if (age >= BigInt(TOTAL_CREDIT_LIFETIME)) return BigInt(0)
+
+  const decayPercentage = ((age - BigInt(FULL_CREDIT_EPOCHS)) * BigInt(100)) / BigInt(DECAY_EPOCHS)
+  return (amount * (BigInt(100) - decayPercentage)) / BigInt(100)
+}
+
+/**
+ * A player's share of one processed epoch: totalEmissions split by the player's
+ * decayed credits from that epoch over the pool's active credits when it was
+ * processed, capped at maxEmissionPercentage when the cap is enabled.
+ */
+export function calculateEmissionShare(
+  totalEmissions: bigint,
+  epochTotalCredits: bigint,
+  playerCredits: bigint,
+  cap?: EmissionCap
+): bigint {
+  if (totalEmissions === BigInt(0) || epochTotalCredits === BigInt(0)) return BigInt(0)
+
+  const share = (totalEmissions * playerCredits) / epochTotalCredits
+  if (!cap?.enabled) return share
+
+  const maxAllowed = (totalEmissions * cap.percentage) / BigInt(100)
+  return share > maxAllowed ? maxAllowed : share
+}
+
+// Part of an epoch's share released by `time`; payouts unlock linearly over the epoch
+export function availableAt(share: bigint, epochStart: bigint, epochDuration: bigint, time: bigint): bigint {
+  if (time >= epochStart + epochDuration) return share
+  if (time <= epochStart) return BigInt(0)
+  return (share * (time - epochStart)) / epochDuration
+}
+
+export interface EarningsProjection {
+  epoch: bigint
+  // Credits the schedule earns during this epoch
+  creditsEarned: bigint
+  // Decayed value of everything the player held before the simulation started
+  existingValue: bigint
+  // All of the player's credits, decayed, when this epoch is processed
+  playerActive: bigint
+  totalActive: bigint
+  projectedEmissions: bigint
+}
+
+/**
+ * Projects emissions for the next `epochs` epochs when the player earns
+ * `creditsPerEpoch` every epoch. Each epoch is assumed to be processed, and
+ * claimed, in the epoch right after it, when its credits still hold full value.
+ * Everyone else's active credits are held at today's level.
+ */
+export function projectEarnings({
+  history,
+  currentEpoch,
+  totalActiveCredits,
+  emissionRate,
+  creditsPerEpoch,
+  epochs,
+  cap,
+}: {
+  history: readonly CreditEntry[]
+  currentEpoch: bigint
+  totalActiveCredits: bigint
+  emissionRate: bigint
+  creditsPerEpoch: bigint
+  epochs: number
+  cap?: EmissionCap
+}): EarningsProjection[] {
+  const valueAt = (entries: readonly CreditEntry[], epoch: bigint) =>
+    entries.reduce((sum, entry) => sum + calculateCreditValue(entry.amount, entry.epoch, epoch), BigInt(0))
+
+  const playerNow = valueAt(history, currentEpoch)
+  const othersActive = totalActiveCredits > playerNow ? totalActiveCredits - playerNow : BigInt(0)
+
+  const entries: CreditEntry[] = [...history]
+  const projection: EarningsProjection[] = []
+
+  for (let i = 0; i < epochs; i++) {
+    const epoch = currentEpoch + BigInt(i)
+    if (creditsPerEpoch > BigInt(0)) entries.push({ amount: creditsPerEpoch, epoch, claimed: false })
+
+    // processWeeklyEmissions runs once the epoch has ended
+    const processedAt = epoch + BigInt(1)
+    const playerActive = valueAt(entries, processedAt)
+    const totalActive = othersActive + playerActive
+    const epochCredits = entries
+      .filter(entry => entry.epoch === epoch)
+      .reduce((sum, entry) => sum + entry.amount, BigInt(0))
+
+    projection.push({
+      epoch,
+      creditsEarned: creditsPerEpoch,
+      existingValue: valueAt(history, processedAt),
+      playerActive,
+      totalActive,
+      projectedEmissions: calculateEmissionShare(emissionRate, totalActive, epochCredits, cap),
+    })
+  }
+
+  return projection
+}
\ No newline at end of file
@@ -0,0 +1,3 @@
+// Display helpers shared across pages
+
+export const shortAddress = (address?: string) => (address ? `${address.slice(0, 6)}...${address.slice(-4)}` : 'Unknown')
\ No newline at end of file
@@ -0,0 +1,269 @@
+// Typed catalogue of the GameConfig parameters an admin can change, with the
+// same bounds the update functions enforce, plus decoding of ParameterUpdated
+// keys and values for the change history.
+
+import { encodePacked, keccak256, stringToBytes, type Hex } from 'viem'
+import { CREW_TYPES, RARITIES, SHIP_TYPES } from '@/hooks/useNFTs'
+
+export type ScalarSetter = 'updateGameParameter' | 'updateTokenomicsParameter'
+
+export type ScalarKey =
+  | 'gridSize'
+  | 'turnTimer'
+  | 'maxSkipTurns'
+  | 'defaultAttackDamage'
+  | 'gameFeePercentage'
+  | 'weeklyEmissionRate'
+  | 'shipDestructionChance'
+
+export type ScalarGetter =
+  | 'getGridSize'
+  | 'getTurnTimer'
+  | 'getMaxSkipTurns'
+  | 'getDefaultAttackDamage'
+  | 'getGameFeePercentage'
+  | 'getWeeklyEmissionRate'
+  | 'getShipDestructionChance'
+
+export interface ScalarParameter {
+  // Hashed with keccak256 into the bytes32 key the setter expects
+  key: ScalarKey
+  label: string
+  getter: ScalarGetter
+  setter: ScalarSetter
+  min: number
+  max: number
+  unit?: string
+}
+
+// Bounds from updateGameParameter and updateTokenomicsParameter
+export const SCALAR_PARAMETERS: ScalarParameter[] = [
+  { key: 'gridSize', label: 'Grid Size', getter: 'getGridSize', setter: 'updateGameParameter', min: 8, max: 20, unit: 'cells' },
+  { key: 'turnTimer', label: 'Turn Timer', getter: 'getTurnTimer', setter: 'updateGameParameter', min: 30, max: 1800, unit: 's' },
+  { key: 'maxSkipTurns', label: 'Max Skip Turns', getter: 'getMaxSkipTurns', setter: 'updateGameParameter', min: 1, max: 10 },
+  { key: 'defaultAttackDamage', label: 'Default Attack Damage', getter: 'getDefaultAttackDamage', setter: 'updateGameParameter', min: 1, max: 5 },
+  { key: 'gameFeePercentage', label: 'Game Fee', getter: 'getGameFeePercentage', setter: 'updateTokenomicsParameter', min: 0, max: 20, unit: '%' },
+  { key: 'weeklyEmissionRate', label: 'Weekly Emission Rate', getter: 'getWeeklyEmissionRate', setter: 'updateTokenomicsParameter', min: 0, max: 1000000 },
+  { key: 'shipDestructionChance', label: 'Ship Destruction Chance', getter: 'getShipDestructionChance', setter: 'updateTokenomicsParameter', min: 0, max: 50, unit: '%' },
+]
+
+// GameConfig.ShipStats
+export interface ShipStats {
+  health: number
+  speed: number
+  shields: number
+  size: number
+}
+
+// Limits enforced by updateShipStats
+export const SHIP_STAT_FIELDS: { field: keyof ShipStats; label: string; min: number; max: number }[] = [
+  { field: 'health', label: 'Health', min: 1, max: 10 },
+  { field: 'speed', label: 'Speed', min: 1, max: 5 },
+  { field: 'shields', label: 'Shields', min: 0, max: 5 },
+  { field: 'size', label: 'Size', min: 1, max: 6 },
+]
+
+// updateFleetRequirements caps each ship type's count
+export const MAX_FLEET_REQUIREMENT = 5
+
+export interface ConfigSnapshot {
+  scalars: Record<ScalarKey, number>
+  // Indexed by ship type
+  shipStats: ShipStats[]
+  fleetRequirements: number[]
+}
+
+export interface FieldChange {
+  label: string
+  from: string
+  to: string
+}
+
+// One transaction. batchUpdateParameters is commented out in GameConfig, so a
+// reviewed set of changes goes out as a sequence of these.
+export type ConfigUpdate =
+  | { kind: 'scalar'; parameter: ScalarParameter; value: number; changes: FieldChange[] }
+  | { kind: 'shipStats'; shipType: number; stats: ShipStats; changes: FieldChange[] }
+  | { kind: 'fleetRequirements'; requirements: number[]; changes: FieldChange[] }
+
+export const parameterKey = (name: string): Hex => keccak256(stringToBytes(name))
+
+// keccak256(abi.encodePacked(name, uint8 id))
+export const indexedParameterKey = (name: string, id: number): Hex =>
+  keccak256(encodePacked(['string', 'uint8'], [name, id]))
+
+export const formatParameterValue = (value: number | bigint, unit?: string) =>
+  unit === '%' || unit === 's' ? `${value}${unit}` : unit ? `${value} ${unit}` : `${value}`
+
+const titleCase = (name: string) =>
+  name.split('_').map(word => word.charAt(0) + word.slice(1).toLowerCase()).join(' ')
+
+export const shipTypeName = (shipType: number) => titleCase(SHIP_TYPES[shipType] ?? `Ship ${shipType}`)
+
+// Whole numbers only, since every bounded field is an unsigned integer on chain
+export const isWithin = (value: number, min: number, max: number) => Number.isInteger(value) && value >= min && value <= max
+
+/**
+ * Reasons the staged values would revert, one per offending field.
+ */
+export function configProblems(staged: ConfigSnapshot): string[] {
+  const problems: string[] = []
+
+  for (const parameter of SCALAR_PARAMETERS) {
+    if (!isWithin(staged.scalars[parameter.key], parameter.min, parameter.max)) {
+      problems.push(`${parameter.label} must be a whole number between ${parameter.min} and ${parameter.max}`)
+    }
+  }
+
+  staged.shipStats.forEach((stats, shipType) => {
+    for (const { field, label, min, max } of SHIP_STAT_FIELDS) {
+      if (!isWithin(stats[field], min, max)) {
+        problems.push(`${shipTypeName(shipType)} ${label.toLowerCase()} must be between ${min} and ${max}`)
+      }
+    }
+  })
+
+  staged.fleetRequirements.forEach((count, shipType) => {
+    if (!isWithin(count, 0, MAX_FLEET_REQUIREMENT)) {
+      problems.push(`${shipTypeName(shipType)} requirement must be between 0 and ${MAX_FLEET_REQUIREMENT}`)
+    }
+  })
+
+  return problems
+}
+
+/**
+ * The transactions needed to move from `current` to `staged`. Ship stats and
+ * fleet requirements are written whole, so each ship type and the fleet
+ * composition take one transaction however many of their fields changed.
+ *
+ * Not covered by tests, as the frontend has none. After changing the planning,
+ * stage edits in the config editor and check the review lists one transaction
+ * per changed scalar, per changed ship type and at most one for the fleet.
+ */
+export function planConfigUpdates(current: ConfigSnapshot, staged: ConfigSnapshot): ConfigUpdate[] {
+  const updates: ConfigUpdate[] = []
+
+  for (const parameter of SCALAR_PARAMETERS) {
+    const from = current.scalars[parameter.key]
+    const to = staged.scalars[parameter.key]
+    if (from === to) continue
+    updates.push({
+      kind: 'scalar',
+      parameter,
+      value: to,
+      changes: [{
+        label: parameter.label,
+        from: formatParameterValue(from, parameter.unit),
+        to: formatParameterValue(to, parameter.unit),
+      }],
+    })
+  }
+
+  staged.shipStats.forEach((stats, shipType) => {
+    const changes = SHIP_STAT_FIELDS
+      .filter(({ field }) => current.shipStats[shipType]?.[field] !== stats[field])
+      .map(({ field, label }) => ({
+        label: `${shipTypeName(shipType)} ${label}`,
+        from: `${current.shipStats[shipType]?.[field] ?? '-'}`,
+        to: `${stats[field]}`,
+      }))
+    if (changes.length > 0) updates.push({ kind: 'shipStats', shipType, stats, changes })
+  })
+
+  const fleetChanges = staged.fleetRequirements.flatMap((count, shipType) =>
+    current.fleetRequirements[shipType] === count ? [] : [{
+      label: `${shipTypeName(shipType)} Required`,
+      from: `${current.fleetRequirements[shipType] ?? '-'}`,
+      to: `${count}`,
+    }]
+  )
+  if (fleetChanges.length > 0) {
+    updates.push({ kind: 'fleetRequirements', requirements: staged.fleetRequirements, changes: fleetChanges })
+  }
+
+  return updates
+}
+
+// ParameterUpdated packs structs into the value; pull out byte `index` from the right
+const byteAt = (value: bigint, index: number) => Number((value >> BigInt(index * 8)) & BigInt(0xff))
+
+const formatShipStats = (value: bigint) =>
+  `health ${byteAt(value, 3)} · speed ${byteAt(value, 2)} · shields ${byteAt(value, 1)} · size ${byteAt(value, 0)}`
+
+const formatFleet = (value: bigint) =>
+  SHIP_TYPES.map((_, shipType) => byteAt(value, SHIP_TYPES.length - 1 - shipType)).join(' / ')
+
+// GameConfig.GameSize
+export const GAME_SIZE_NAMES = ['Shrimp', 'Fish', 'Shark', 'Whale'] as const
+
+// GameConfig.CaptainAbility, which updateNFTParameter keys on. CaptainNFTManager
+// declares its own, different ability enum.
+const CONFIG_CAPTAIN_ABILITIES = [
+  'SCAN_BOOST',
+  'DAMAGE_BOOST',
+  'SPEED_BOOST',
+  'SHIELDS',
+  'REVEAL',
+  'DODGE',
+  'BERSERKER',
+  'DEFENDER',
+] as const
+
+interface KeyDescription {
+  label: string
+  format: (value: bigint) => string
+}
+
+const plain = (unit?: string) => (value: bigint) => formatParameterValue(value, unit)
+const toggle = (value: bigint) => (value === BigInt(1) ? 'on' : 'off')
+
+const KEY_DESCRIPTIONS = new Map<Hex, KeyDescription>([
+  ...SCALAR_PARAMETERS.map((parameter): [Hex, KeyDescription] => [
+    parameterKey(parameter.key),
+    { label: parameter.label, format: plain(parameter.unit) },
+  ]),
+  [parameterKey('fleetRequirements'), {
+    label: `Fleet Requirements (${SHIP_TYPES.map((_, shipType) => shipTypeName(shipType)).join(' / ')})`,
+    format: formatFleet,
+  }],
+  ...SHIP_TYPES.map((_, shipType): [Hex, KeyDescription] => [
+    indexedParameterKey('shipStats', shipType),
+    { label: `${shipTypeName(shipType)} Stats`, format: formatShipStats },
+  ]),
+  // updateNFTParameter keys, which this editor does not stage but may show up in history
+  ...RARITIES.slice(0, 4).map((rarity, id): [Hex, KeyDescription] => [
+    indexedParameterKey('actionUses', id),
+    { label: `${titleCase(rarity)} Action Uses`, format: plain() },
+  ]),
+  ...CONFIG_CAPTAIN_ABILITIES.map((ability, id): [Hex, KeyDescription] => [
+    indexedParameterKey('captainToggle', id),
+    { label: `Captain ${titleCase(ability)} on Default Attack`, format: toggle },
+  ]),
+  ...CREW_TYPES.map((crewType, id): [Hex, KeyDescription] => [
+    indexedParameterKey('crewToggle', id),
+    { label: `Crew ${titleCase(crewType)} on Default Attack`, format: toggle },
+  ]),
+  ...GAME_SIZE_NAMES.map((size, id): [Hex, KeyDescription] => [
+    indexedParameterKey('credits', id),
+    { label: `${size} Winner Credits`, format: plain() },
+  ]),
+])
+
+/**
+ * A readable label and values for a ParameterUpdated log. Ship stats updates
+ * always report 0 as the old value, so that side is left blank for them.
+ */
+export function describeParameterUpdate(key: Hex, oldValue: bigint, newValue: bigint): FieldChange {
+  const description = KEY_DESCRIPTIONS.get(key)
+  if (!description) {
+    return { label: `${key.slice(0, 10)}...`, from: oldValue.toString(), to: newValue.toString() }
+  }
+
+  const isShipStats = description.format === formatShipStats
+  return {
+    label: description.label,
+    from: isShipStats ? '' : description.format(oldValue),
+    to: description.format(newValue),
+  }
+}
\ No newline at end of file
@@ -0,0 +1,392 @@
+// Client-side event indexer. Pulls the logs of every contract in the address
+// book in block ranges, decodes them with ABIS and keeps them in IndexedDB per
+// chain, so pages can query history without rescanning the chain on each load.
+
+import { decodeEventLog, type Abi, type Log, type PublicClient } from 'viem'
+import { ABIS } from './abis'
+import { CONTRACT_NAMES, getContractAddresses, getDeploymentBlock, type ContractName } from './config'
+
+const DB_NAME = 'cryptobattleship-events'
+const DB_VERSION = 1
+
+const LOGS_STORE = 'logs'
+const CHECKPOINTS_STORE = 'checkpoints'
+const STATE_STORE = 'state'
+
+// Blocks per eth_getLogs call; halved while the RPC rejects the range
+const MAX_BLOCK_RANGE = BigInt(2000)
+const MIN_BLOCK_RANGE = BigInt(16)
+
+// How far back block hashes are kept to detect reorgs
+const REORG_DEPTH = 64
+
+const POLL_INTERVAL_MS = 4000
+
+export interface IndexedEvent<TArgs = Record<string, unknown>> {
+  contractName: ContractName
+  eventName: string
+  args: TArgs
+  blockNumber: bigint
+  blockHash: `0x${string}`
+  transactionHash: `0x${string}`
+  logIndex: number
+}
+
+export interface IndexerStatus {
+  isSyncing: boolean
+  // Last block whose logs are all in the cache
+  lastBlock?: bigint
+  error: Error | null
+}
+
+// Indexed args to match; an array matches any of its values
+export type EventArgsFilter = Record<string, unknown>
+
+interface StoredLog {
+  chainId: number
+  blockNumber: number
+  logIndex: number
+  contractName: ContractName
+  eventName: string
+  args: Record<string, unknown>
+  blockHash: `0x${string}`
+  transactionHash: `0x${string}`
+}
+
+interface Checkpoint {
+  chainId: number
+  blockNumber: number
+  hash: `0x${string}`
+}
+
+interface ChainState {
+  chainId: number
+  // A redeploy changes the address book and invalidates everything cached
+  addressesKey: string
+  lastBlock: number
+}
+
+type StatusListener = (status: IndexerStatus, logsChanged: boolean) => void
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const statuses = new Map<number, IndexerStatus>()
+const listeners = new Map<number, Set<StatusListener>>()
+const watchers = new Map<number, { count: number; timer?: ReturnType<typeof setTimeout> }>()
+const runningSyncs = new Map<number, Promise<void>>()
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'))
+  })
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION)
+      req.onupgradeneeded = () => {
+        const db = req.result
+        // Keyed by chain, block and log index so range deletes and ordering come for free
+        const logs = db.createObjectStore(LOGS_STORE, { keyPath: ['chainId', 'blockNumber', 'logIndex'] })
+        logs.createIndex('event', ['chainId', 'contractName', 'eventName'])
+        db.createObjectStore(CHECKPOINTS_STORE, { keyPath: ['chainId', 'blockNumber'] })
+        db.createObjectStore(STATE_STORE, { keyPath: 'chainId' })
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+// Every key of a chain at or above `fromBlock`
+const blocksFrom = (chainId: number, fromBlock: number) =>
+  IDBKeyRange.bound([chainId, fromBlock], [chainId, Infinity])
+
+const addressesKeyFor = (chainId: number) => {
+  const addresses = getContractAddresses(chainId)
+  return CONTRACT_NAMES.map(name => addresses[name].toLowerCase()).join(',')
+}
+
+async function readState(db: IDBDatabase, chainId: number): Promise<ChainState | undefined> {
+  const tx = db.transaction(STATE_STORE, 'readonly')
+  return request<ChainState | undefined>(tx.objectStore(STATE_STORE).get(chainId))
+}
+
+// Drops cached logs and checkpoints above `lastBlock` and resumes from there
+async function rewind(db: IDBDatabase, state: ChainState, lastBlock: number): Promise<ChainState> {
+  const next = { ...state, lastBlock }
+  const tx = db.transaction([LOGS_STORE, CHECKPOINTS_STORE, STATE_STORE], 'readwrite')
+  tx.objectStore(LOGS_STORE).delete(blocksFrom(state.chainId, lastBlock + 1))
+  tx.objectStore(CHECKPOINTS_STORE).delete(blocksFrom(state.chainId, lastBlock + 1))
+  tx.objectStore(STATE_STORE).put(next)
+  await completion(tx)
+  return next
+}
+
+// Starts the chain over, e.g. after a redeploy or a reorg deeper than the checkpoints
+async function resetChain(db: IDBDatabase, chainId: number, addressesKey: string, lastBlock: number): Promise<ChainState> {
+  const next = { chainId, addressesKey, lastBlock }
+  const tx = db.transaction([LOGS_STORE, CHECKPOINTS_STORE, STATE_STORE], 'readwrite')
+  tx.objectStore(LOGS_STORE).delete(blocksFrom(chainId, 0))
+  tx.objectStore(CHECKPOINTS_STORE).delete(blocksFrom(chainId, 0))
+  tx.objectStore(STATE_STORE).put(next)
+  await completion(tx)
+  return next
+}
+
+// Logs, checkpoints and progress for one block range land in a single transaction,
+// so an interrupted sync resumes exactly where the cache ends
+async function commitRange(
+  db: IDBDatabase,
+  state: ChainState,
+  logs: StoredLog[],
+  checkpoints: Checkpoint[]
+): Promise<void> {
+  const tx = db.transaction([LOGS_STORE, CHECKPOINTS_STORE, STATE_STORE], 'readwrite')
+  const logStore = tx.objectStore(LOGS_STORE)
+  const checkpointStore = tx.objectStore(CHECKPOINTS_STORE)
+
+  logs.forEach(log => logStore.put(log))
+  checkpoints.forEach(checkpoint => checkpointStore.put(checkpoint))
+  if (state.lastBlock >= REORG_DEPTH) {
+    checkpointStore.delete(IDBKeyRange.bound([state.chainId, 0], [state.chainId, state.lastBlock - REORG_DEPTH]))
+  }
+  tx.objectStore(STATE_STORE).put(state)
+  await completion(tx)
+}
+
+/**
+ * Compares the newest cached block hashes with the chain. Returns the state to
+ * resume from: unchanged, rewound to the last block that still matches, or
+ * undefined when nothing matches and the cache has to be rebuilt.
+ */
+async function resolveReorg(db: IDBDatabase, client: PublicClient, state: ChainState): Promise<ChainState | undefined> {
+  const tx = db.transaction(CHECKPOINTS_STORE, 'readonly')
+  const checkpoints = await request<Checkpoint[]>(tx.objectStore(CHECKPOINTS_STORE).getAll(blocksFrom(state.chainId, 0)))
+
+  for (let i = checkpoints.length - 1; i >= 0; i--) {
+    const checkpoint = checkpoints[i]
+    const block = await client.getBlock({ blockNumber: BigInt(checkpoint.blockNumber) }).catch(() => null)
+    if (block?.hash === checkpoint.hash) {
+      return i === checkpoints.length - 1 ? state : rewind(db, state, checkpoint.blockNumber)
+    }
+  }
+
+  return checkpoints.length > 0 ? undefined : state
+}
+
+function decodeLogs(chainId: number, logs: Log[]): StoredLog[] {
+  const addresses = getContractAddresses(chainId)
+  const byAddress = new Map(CONTRACT_NAMES.map(name => [addresses[name].toLowerCase(), name]))
+
+  return logs.flatMap(log => {
+    const contractName = byAddress.get(log.address.toLowerCase())
+    if (!contractName || log.blockNumber === null || log.logIndex === null || !log.blockHash || !log.transactionHash) {
+      return []
+    }
+
+    try {
+      const { eventName, args } = decodeEventLog({
+        abi: ABIS[contractName] as Abi,
+        data: log.data,
+        topics: log.topics,
+      })
+      return [{
+        chainId,
+        blockNumber: Number(log.blockNumber),
+        logIndex: log.logIndex,
+        contractName,
+        eventName: eventName ?? '',
+        args: (args ?? {}) as Record<string, unknown>,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+      }]
+    } catch {
+      // Events from inherited code that the exported ABI does not describe
+      return []
+    }
+  })
+}
+
+function setStatus(chainId: number, update: Partial<IndexerStatus>, logsChanged = false) {
+  const status = { ...getIndexerStatus(chainId), ...update }
+  statuses.set(chainId, status)
+  listeners.get(chainId)?.forEach(listener => listener(status, logsChanged))
+}
+
+async function runSync(client: PublicClient, chainId: number): Promise<void> {
+  const db = await openDb()
+  const addresses = getContractAddresses(chainId)
+  const addressesKey = addressesKeyFor(chainId)
+  const head = await client.getBlock()
+
+  let state = await readState(db, chainId)
+  if (state && state.addressesKey === addressesKey) {
+    const resolved = await resolveReorg(db, client, state)
+    if (resolved && resolved.lastBlock !== state.lastBlock) setStatus(chainId, {}, true)
+    state = resolved
+  }
+
+  if (!state || state.addressesKey !== addressesKey) {
+    // Without the block, indexing would have to walk the chain from genesis
+    const startBlock = getDeploymentBlock(chainId)
+    if (startBlock === undefined) {
+      throw new Error(`No deploymentBlock in the chain ${chainId} address book; redeploy with scripts/deploy.js or add it to src/lib/deployments`)
+    }
+    state = await resetChain(db, chainId, addressesKey, Number(startBlock) - 1)
+    setStatus(chainId, { lastBlock: startBlock - BigInt(1) }, true)
+  }
+
+  const addressList = CONTRACT_NAMES.map(name => addresses[name])
+  let fromBlock = BigInt(state.lastBlock + 1)
+  let range = MAX_BLOCK_RANGE
+
+  while (fromBlock <= head.number) {
+    const toBlock = fromBlock + range - BigInt(1) < head.number ? fromBlock + range - BigInt(1) : head.number
+
+    let logs: Log[]
+    try {
+      logs = await client.getLogs({ address: addressList, fromBlock, toBlock })
+    } catch (err) {
+      if (range <= MIN_BLOCK_RANGE) throw err
+      range = range / BigInt(2)
+      continue
+    }
+
+    const decoded = decodeLogs(chainId, logs)
+    const checkpoints = new Map<number, Checkpoint>()
+    decoded.forEach(log => checkpoints.set(log.blockNumber, { chainId, blockNumber: log.blockNumber, hash: log.blockHash }))
+    if (toBlock === head.number && head.hash) {
+      checkpoints.set(Number(toBlock), { chainId, blockNumber: Number(toBlock), hash: head.hash })
+    }
+
+    state = { ...state, lastBlock: Number(toBlock) }
+    await commitRange(db, state, decoded, Array.from(checkpoints.values()))
+    setStatus(chainId, { lastBlock: toBlock }, decoded.length > 0)
+
+    fromBlock = toBlock + BigInt(1)
+  }
+}
+
+/**
+ * Brings the cache for `chainId` up to the chain head. Concurrent callers share
+ * the sync already in flight.
+ */
+export function syncEvents(client: PublicClient, chainId: number): Promise<void> {
+  const running = runningSyncs.get(chainId)
+  if (running) return running
+
+  setStatus(chainId, { isSyncing: true })
+  const sync = runSync(client, chainId)
+    .then(() => setStatus(chainId, { isSyncing: false, error: null }))
+    .catch(err => {
+      console.error('Event indexer sync failed:', err)
+      setStatus(chainId, { isSyncing: false, error: err instanceof Error ? err : new Error(String(err)) })
+    })
+    .finally(() => runningSyncs.delete(chainId))
+
+  runningSyncs.set(chainId, sync)
+  return sync
+}
+
+/**
+ * Keeps `chainId` synced while at least one caller is watching. Returns a
+ * function that stops watching.
+ */
+export function watchEvents(client: PublicClient, chainId: number): () => void {
+  const watcher = watchers.get(chainId) ?? { count: 0 }
+  watcher.count += 1
+  watchers.set(chainId, watcher)
+
+  if (watcher.count === 1) {
+    const poll = async () => {
+      await syncEvents(client, chainId)
+      if (watchers.get(chainId) === watcher && watcher.count > 0) {
+        watcher.timer = setTimeout(poll, POLL_INTERVAL_MS)
+      }
+    }
+    poll()
+  }
+
+  return () => {
+    watcher.count -= 1
+    if (watcher.count === 0) {
+      clearTimeout(watcher.timer)
+      watchers.delete(chainId)
+    }
+  }
+}
+
+export function getIndexerStatus(chainId: number): IndexerStatus {
+  return statuses.get(chainId) ?? { isSyncing: false, error: null }
+}
+
+// Called with the new status on every change, and whether cached logs changed
+export function subscribeIndexer(chainId: number, listener: StatusListener): () => void {
+  const chainListeners = listeners.get(chainId) ?? new Set<StatusListener>()
+  chainListeners.add(listener)
+  listeners.set(chainId, chainListeners)
+
+  return () => {
+    chainListeners.delete(listener)
+  }
+}
+
+const normalize = (value: unknown) => (typeof value === 'string' ? value.toLowerCase() : value)
+
+function matchesArgs(args: Record<string, unknown>, filter?: EventArgsFilter): boolean {
+  if (!filter) return true
+  return Object.entries(filter).every(([name, expected]) => {
+    if (expected === undefined || expected === null) return true
+    const actual = normalize(args[name])
+    const options = Array.isArray(expected) ? expected : [expected]
+    return options.some(option => normalize(option) === actual)
+  })
+}
+
+/**
+ * Cached events of one contract event, oldest first, optionally filtered by
+ * indexed args. Addresses compare case-insensitively.
+ */
+export async function queryEvents(
+  chainId: number,
+  contractName: ContractName,
+  eventName: string,
+  filter?: EventArgsFilter
+): Promise<IndexedEvent[]> {
+  const db = await openDb()
+  const tx = db.transaction(LOGS_STORE, 'readonly')
+  const logs = await request<StoredLog[]>(
+    tx.objectStore(LOGS_STORE).index('event').getAll(IDBKeyRange.only([chainId, contractName, eventName]))
+  )
+
+  return logs
+    .filter(log => matchesArgs(log.args, filter))
+    .map(log => ({
+      contractName: log.contractName,
+      eventName: log.eventName,
+      args: log.args,
+      blockNumber: BigInt(log.blockNumber),
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex,
+    }))
+}
\ No newline at end of file
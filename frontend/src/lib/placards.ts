@@ -0,0 +1,148 @@
+// Placard SVGs for content that is not minted yet, mirroring
+// ActionNFTManager._buildPlacardSVG and ShipNFTManager._buildPlacardSVG so
+// admins can preview a template or variant before submitting it.
+
+import { RARITIES, SHIP_TYPES } from '@/hooks/useNFTs'
+
+// ShipNFTManager.VariantStatMods
+export interface VariantStatMods {
+  healthMod: number
+  speedMod: number
+  shieldsMod: number
+  firepowerMod: number
+  rangeMod: number
+  armorMod: number
+  stealthMod: number
+}
+
+export interface ShipPlacardStats {
+  health: number
+  speed: number
+  shields: number
+  size: number
+  firepower: number
+  range: number
+  armor: number
+  stealth: number
+}
+
+export interface ActionTemplateDraft {
+  name: string
+  targetCells: number[]
+  damage: number
+  range: number
+  uses: number
+  category: number
+}
+
+// Limits enforced by addActionTemplate
+export const TEMPLATE_LIMITS = {
+  maxTargetCells: 25,
+  maxDamage: 10,
+  maxRange: 15,
+  maxUses: 10,
+} as const
+
+// Both managers embed names verbatim, so markup characters break the on-chain SVG
+export const hasUnsafeSvgText = (value: string) => /[<>&"]/.test(value)
+
+const escapeText = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const RARITY_COLORS = ['#808080', '#00ff00', '#0080ff', '#8000ff', '#ff8000']
+
+const rarityColor = (rarity: number) => RARITY_COLORS[rarity] ?? RARITY_COLORS[RARITY_COLORS.length - 1]
+
+const rarityName = (rarity: number) => {
+  const name = RARITIES[rarity] ?? 'LEGENDARY'
+  return name.charAt(0) + name.slice(1).toLowerCase()
+}
+
+export function actionPlacardSVG(template: ActionTemplateDraft, rarity: number): string {
+  const color = rarityColor(rarity)
+  const categoryColor = template.category === 0 ? '#ff4444' : '#4444ff'
+  const categoryName = template.category === 0 ? 'Offensive' : 'Defensive'
+
+  return [
+    '<svg width="300" height="420" xmlns="http://www.w3.org/2000/svg">',
+    '<defs><style>.text{font-family:Arial,sans-serif;font-weight:bold;}</style></defs>',
+    `<rect width="300" height="420" fill="#1a1a2e" stroke="${color}" stroke-width="3"/>`,
+    `<rect x="10" y="10" width="280" height="60" fill="${categoryColor}" opacity="0.8"/>`,
+    `<text x="150" y="35" text-anchor="middle" fill="white" class="text" font-size="16">${escapeText(template.name)}</text>`,
+    `<text x="150" y="55" text-anchor="middle" fill="white" class="text" font-size="12">${rarityName(rarity)} ${categoryName}</text>`,
+    `<rect x="10" y="320" width="280" height="90" fill="#333" stroke="${color}"/>`,
+    `<text x="20" y="340" fill="white" class="text" font-size="12">Damage: ${template.damage}</text>`,
+    `<text x="20" y="355" fill="white" class="text" font-size="12">Range: ${template.range}</text>`,
+    // A fresh token has every use left
+    `<text x="20" y="370" fill="white" class="text" font-size="12">Uses: ${template.uses}/${template.uses}</text>`,
+    `<text x="20" y="385" fill="white" class="text" font-size="12">Pattern: ${template.targetCells.length} cells</text>`,
+    // _generatePatternVisualization ignores the cells and draws a fixed marker
+    '<g transform="translate(150, 100)">',
+    '<rect x="-50" y="-50" width="100" height="100" fill="#222" stroke="#555"/>',
+    `<circle cx="0" cy="0" r="3" fill="${categoryColor}"/>`,
+    '</g>',
+    '</svg>',
+  ].join('')
+}
+
+const BASE_SHIP_STATS: ShipPlacardStats[] = [
+  { health: 60, speed: 3, shields: 10, size: 2, firepower: 45, range: 4, armor: 15, stealth: 25 },
+  { health: 80, speed: 2, shields: 15, size: 3, firepower: 55, range: 5, armor: 20, stealth: 35 },
+  { health: 100, speed: 2, shields: 20, size: 3, firepower: 65, range: 5, armor: 25, stealth: 15 },
+  { health: 140, speed: 1, shields: 30, size: 4, firepower: 85, range: 6, armor: 35, stealth: 5 },
+  { health: 180, speed: 1, shields: 25, size: 5, firepower: 70, range: 7, armor: 30, stealth: 10 },
+]
+
+const BASE_CREW_CAPACITY = [2, 3, 4, 6, 8]
+
+const applyMod = (stat: number, mod: number) => Math.max(0, stat + mod)
+
+// ShipNFTManager._generateShipStats for a ship minted under a variant with these mods
+export function shipStatsFor(shipType: number, rarity: number, mods: VariantStatMods): ShipPlacardStats {
+  const base = BASE_SHIP_STATS[shipType] ?? BASE_SHIP_STATS[BASE_SHIP_STATS.length - 1]
+  const rarityBonus = rarity + 1
+
+  return {
+    health: applyMod(base.health + rarityBonus * 10, mods.healthMod),
+    speed: applyMod(base.speed, mods.speedMod),
+    shields: applyMod(base.shields + rarityBonus * 2, mods.shieldsMod),
+    size: base.size,
+    firepower: applyMod(base.firepower + rarityBonus * 5, mods.firepowerMod),
+    range: applyMod(base.range, mods.rangeMod),
+    armor: applyMod(base.armor, mods.armorMod),
+    stealth: applyMod(base.stealth, mods.stealthMod),
+  }
+}
+
+export function shipPlacardSVG(shipType: number, rarity: number, variantName: string, stats: ShipPlacardStats): string {
+  const color = rarityColor(rarity)
+  const type = SHIP_TYPES[shipType] ?? 'CARRIER'
+  const shipName = type.charAt(0) + type.slice(1).toLowerCase()
+  const crewCapacity = (BASE_CREW_CAPACITY[shipType] ?? BASE_CREW_CAPACITY[BASE_CREW_CAPACITY.length - 1]) + rarity
+
+  return [
+    '<svg width="300" height="420" xmlns="http://www.w3.org/2000/svg">',
+    '<defs><style>.text{font-family:Arial,sans-serif;font-weight:bold;}</style></defs>',
+    `<rect width="300" height="420" fill="#0a0e27" stroke="${color}" stroke-width="3"/>`,
+    `<rect x="10" y="10" width="280" height="60" fill="${color}" opacity="0.8"/>`,
+    `<text x="150" y="35" text-anchor="middle" fill="white" class="text" font-size="16">${shipName}</text>`,
+    `<text x="150" y="55" text-anchor="middle" fill="white" class="text" font-size="12">${rarityName(rarity)} ${escapeText(variantName)}</text>`,
+    '<rect x="20" y="80" width="260" height="180" fill="#1a1a2e" stroke="#444"/>',
+    '<g transform="translate(150, 170)">',
+    `<rect x="-60" y="-20" width="120" height="40" fill="${color}" opacity="0.8" rx="5"/>`,
+    '<circle cx="0" cy="0" r="15" fill="#fff" opacity="0.9"/>',
+    '<text x="0" y="5" text-anchor="middle" fill="#000" font-size="12">[S]</text>',
+    '</g>',
+    `<rect x="10" y="270" width="280" height="140" fill="#333" stroke="${color}"/>`,
+    `<text x="20" y="290" fill="white" class="text" font-size="12">Health: ${stats.health}</text>`,
+    `<text x="160" y="290" fill="white" class="text" font-size="12">Speed: ${stats.speed}</text>`,
+    `<text x="20" y="310" fill="white" class="text" font-size="12">Shields: ${stats.shields}</text>`,
+    `<text x="160" y="310" fill="white" class="text" font-size="12">Size: ${stats.size}</text>`,
+    `<text x="20" y="330" fill="white" class="text" font-size="12">Firepower: ${stats.firepower}</text>`,
+    `<text x="160" y="330" fill="white" class="text" font-size="12">Range: ${stats.range}</text>`,
+    `<text x="20" y="350" fill="white" class="text" font-size="12">Armor: ${stats.armor}</text>`,
+    `<text x="160" y="350" fill="white" class="text" font-size="12">Stealth: ${stats.stealth}</text>`,
+    `<text x="20" y="380" fill="white" class="text" font-size="12">Crew Capacity: ${crewCapacity}</text>`,
+    '</svg>',
+  ].join('')
+}
\ No newline at end of file
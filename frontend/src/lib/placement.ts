@@ -0,0 +1,94 @@
+// Ship placement rules, mirroring GameLogic.validateShipPlacement and calculateShipCells.
+// placeShips takes GameState.ShipRotation (NORTH/EAST/SOUTH/WEST). GameConfig.ShipRotation
+// also declares diagonal orientations, but nothing on the placement path reads them, so
+// diagonal ships cannot be submitted until GameLogic learns about them.
+
+// Number of ships placeShips accepts, one per uint8[5] slot
+export const FLEET_SIZE = 5
+
+// GameLogic.GRID_SIZE; cells outside it revert even if GameConfig.gridSize is larger
+export const MAX_GRID_SIZE = 10
+
+// Ordered as GameState.ShipRotation
+export const ROTATIONS = ['NORTH', 'EAST', 'SOUTH', 'WEST'] as const
+export type Rotation = 0 | 1 | 2 | 3
+
+// Ordered as GameConfig.ShipType, sizes from GameLogic.getShipSize
+export const SHIP_CLASSES = [
+  { name: 'Destroyer', size: 2 },
+  { name: 'Submarine', size: 3 },
+  { name: 'Cruiser', size: 3 },
+  { name: 'Battleship', size: 4 },
+  { name: 'Carrier', size: 5 },
+] as const
+
+export interface ShipPlacement {
+  type: number
+  x: number
+  y: number
+  rotation: Rotation
+}
+
+export interface Cell {
+  x: number
+  y: number
+}
+
+/**
+ * Cells covered by a ship, or null if any of them falls outside the grid.
+ * Matches calculateShipCells, where running off the top or left underflows and reverts.
+ */
+export function calculateShipCells(x: number, y: number, size: number, rotation: Rotation, gridSize: number): Cell[] | null {
+  const cells: Cell[] = []
+  for (let i = 0; i < size; i++) {
+    const cell = {
+      x: rotation === 1 ? x + i : rotation === 3 ? x - i : x,
+      y: rotation === 0 ? y - i : rotation === 2 ? y + i : y,
+    }
+    if (cell.x < 0 || cell.y < 0 || cell.x >= gridSize || cell.y >= gridSize) return null
+    cells.push(cell)
+  }
+  return cells
+}
+
+// Turns GameConfig.getFleetRequirements (a count per ship type) into one ship type per slot
+export function expandFleetRequirements(requirements: readonly number[]): number[] {
+  return requirements.flatMap((count, type) => Array<number>(count).fill(type))
+}
+
+/**
+ * Checks a full placement the way placeShips will, returning the reason it
+ * would revert or null if it is valid.
+ */
+export function validatePlacement(ships: ShipPlacement[], requiredTypes: number[], gridSize: number): string | null {
+  if (requiredTypes.length !== FLEET_SIZE) {
+    return `GameConfig requires ${requiredTypes.length} ships but placeShips takes exactly ${FLEET_SIZE}`
+  }
+  if (ships.length !== FLEET_SIZE) {
+    return `Place all ${FLEET_SIZE} ships`
+  }
+
+  const byType = (a: number, b: number) => a - b
+  const placedTypes = ships.map(ship => ship.type).sort(byType)
+  const expectedTypes = [...requiredTypes].sort(byType)
+  if (placedTypes.some((type, i) => type !== expectedTypes[i])) {
+    return 'Fleet does not match the configured fleet requirements'
+  }
+
+  const occupied = new Set<string>()
+  for (const ship of ships) {
+    const shipClass = SHIP_CLASSES[ship.type]
+    if (!shipClass) return `Unknown ship type ${ship.type}`
+
+    const cells = calculateShipCells(ship.x, ship.y, shipClass.size, ship.rotation, gridSize)
+    if (!cells) return `${shipClass.name} extends outside the grid`
+
+    for (const cell of cells) {
+      const key = `${cell.x}-${cell.y}`
+      if (occupied.has(key)) return `${shipClass.name} overlaps another ship`
+      occupied.add(key)
+    }
+  }
+
+  return null
+}
\ No newline at end of file
@@ -0,0 +1,234 @@
+// Turn-by-turn reconstruction of a finished game from its contract events.
+// Ship placement writes SHIP cells through GameState.CellStateChanged, so both
+// boards can be rebuilt in full, not just the cells that were shot at.
+//
+// There are no automated tests for buildReplay or boardsAt; the frontend only
+// runs the type-check. Verify changes by replaying a game finished on a local
+// chain: the last step's boards should match GameState.getCellState cell for cell.
+
+import { isAddressEqual } from 'viem'
+import { CHAIN_CELL_STATES, GRID_SIZE, type ChainCellState } from '@/hooks/useBattleEvents'
+
+export type ReplayEventName =
+  | 'ShipsPlaced'
+  | 'GameStarted'
+  | 'CellStateChanged'
+  | 'AttackMade'
+  | 'ShipDestroyed'
+  | 'CaptainAbilityUsed'
+  | 'CrewAbilityUsed'
+  | 'ActionUsed'
+  | 'GameEnded'
+  | 'CreditsAwarded'
+
+export interface ReplayEvent {
+  eventName: ReplayEventName
+  blockNumber: bigint
+  logIndex: number
+  transactionHash: `0x${string}`
+  args: {
+    player?: `0x${string}`
+    attacker?: `0x${string}`
+    user?: `0x${string}`
+    winner?: `0x${string}`
+    loser?: `0x${string}`
+    x?: number
+    y?: number
+    hit?: boolean
+    newState?: number
+    shipIndex?: number
+    captainId?: bigint
+    crewId?: bigint
+    tokenId?: bigint
+    usesRemaining?: bigint
+    winnerCredits?: bigint
+    loserCredits?: bigint
+    amount?: bigint
+  }
+}
+
+export interface CellChange {
+  player: `0x${string}`
+  x: number
+  y: number
+  state: ChainCellState
+}
+
+export interface ReplayStep {
+  // Whose transaction this was; the opening step has no single actor
+  actor?: `0x${string}`
+  blockNumber: bigint
+  transactionHash?: `0x${string}`
+  attack?: { x: number; y: number; hit: boolean }
+  cellChanges: CellChange[]
+  shipsDestroyed: { player: `0x${string}`; shipIndex: number }[]
+  captainAbility?: bigint
+  crewAbilities: bigint[]
+  // ActionNFTManager.ActionUsed does not carry a game id; see buildReplay
+  actions: { tokenId: bigint; usesRemaining: bigint }[]
+  ended?: { winner: `0x${string}`; loser: `0x${string}` }
+}
+
+export interface Replay {
+  player1: `0x${string}`
+  player2: `0x${string}`
+  winner?: `0x${string}`
+  // First step is both fleets deployed, every later step is one transaction
+  steps: ReplayStep[]
+  // Undefined when no award was found for the player
+  credits: { player1?: bigint; player2?: bigint }
+}
+
+export type ReplayBoard = ChainCellState[][]
+
+const emptyBoard = (): ReplayBoard =>
+  Array(GRID_SIZE).fill(null).map(() => Array(GRID_SIZE).fill('EMPTY'))
+
+function sortEvents(events: readonly ReplayEvent[]): ReplayEvent[] {
+  return [...events].sort((a, b) => {
+    if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1
+    return a.logIndex - b.logIndex
+  })
+}
+
+function emptyStep(blockNumber: bigint, transactionHash?: `0x${string}`): ReplayStep {
+  return { blockNumber, transactionHash, cellChanges: [], shipsDestroyed: [], crewAbilities: [], actions: [] }
+}
+
+function applyEvent(step: ReplayStep, event: ReplayEvent) {
+  const { args } = event
+  switch (event.eventName) {
+    case 'CellStateChanged':
+      if (args.player && args.x !== undefined && args.y !== undefined && args.newState !== undefined) {
+        step.cellChanges.push({ player: args.player, x: args.x, y: args.y, state: CHAIN_CELL_STATES[args.newState] ?? 'EMPTY' })
+      }
+      break
+    case 'AttackMade':
+      if (args.x !== undefined && args.y !== undefined) {
+        step.actor = args.attacker
+        step.attack = { x: args.x, y: args.y, hit: !!args.hit }
+      }
+      break
+    case 'ShipDestroyed':
+      if (args.player && args.shipIndex !== undefined) {
+        step.shipsDestroyed.push({ player: args.player, shipIndex: args.shipIndex })
+      }
+      break
+    case 'CaptainAbilityUsed':
+      step.actor = step.actor ?? args.player
+      step.captainAbility = args.captainId
+      break
+    case 'CrewAbilityUsed':
+      step.actor = step.actor ?? args.player
+      if (args.crewId !== undefined) step.crewAbilities.push(args.crewId)
+      break
+    case 'ActionUsed':
+      step.actor = step.actor ?? args.user
+      if (args.tokenId !== undefined) {
+        step.actions.push({ tokenId: args.tokenId, usesRemaining: args.usesRemaining ?? BigInt(0) })
+      }
+      break
+    case 'GameEnded':
+      if (args.winner && args.loser) step.ended = { winner: args.winner, loser: args.loser }
+      break
+  }
+}
+
+/**
+ * Groups a game's events into replay steps. Everything up to GameStarted is
+ * folded into the opening step. ActionUsed and CreditsAwarded are not keyed by
+ * game, so callers pass only those from the two players inside the game's
+ * block range, and ActionUsed is kept only for the fleets' action NFTs.
+ */
+export function buildReplay(
+  events: readonly ReplayEvent[],
+  player1: `0x${string}`,
+  player2: `0x${string}`,
+  fleetActionIds: readonly bigint[] = []
+): Replay {
+  const sorted = sortEvents(events).filter(event =>
+    event.eventName !== 'ActionUsed' || fleetActionIds.some(id => id === event.args.tokenId)
+  )
+
+  // The opening ends at GameStarted, or after the last placement if it never came
+  let openingEnd = sorted.findIndex(event => event.eventName === 'GameStarted') + 1
+  if (openingEnd === 0) {
+    sorted.forEach((event, index) => {
+      if (event.eventName === 'ShipsPlaced') openingEnd = index + 1
+    })
+  }
+
+  const opening = emptyStep(sorted[Math.max(0, openingEnd - 1)]?.blockNumber ?? BigInt(0))
+  sorted.slice(0, openingEnd).forEach(event => applyEvent(opening, event))
+
+  const steps: ReplayStep[] = [opening]
+  const byTransaction = new Map<string, ReplayStep>()
+  let endTransaction: `0x${string}` | undefined
+  let winner: `0x${string}` | undefined
+
+  sorted.slice(openingEnd).forEach(event => {
+    if (event.eventName === 'CreditsAwarded') return
+
+    let step = byTransaction.get(event.transactionHash)
+    if (!step) {
+      step = emptyStep(event.blockNumber, event.transactionHash)
+      byTransaction.set(event.transactionHash, step)
+      steps.push(step)
+    }
+    applyEvent(step, event)
+
+    if (event.eventName === 'GameEnded') {
+      endTransaction = event.transactionHash
+      winner = event.args.winner
+    }
+  })
+
+  // GameEnded reports zero credits; the amounts are in TokenomicsCore.CreditsAwarded
+  // logs of the same transaction
+  const creditsFor = (player: `0x${string}`) => {
+    const awards = sorted.filter(event =>
+      event.eventName === 'CreditsAwarded' &&
+      event.transactionHash === endTransaction &&
+      !!event.args.player && isAddressEqual(event.args.player, player)
+    )
+    if (awards.length > 0) return awards.reduce((sum, event) => sum + (event.args.amount ?? BigInt(0)), BigInt(0))
+
+    const ended = sorted.find(event => event.eventName === 'GameEnded')
+    if (!ended) return undefined
+    const reported = ended.args.winner && isAddressEqual(ended.args.winner, player) ? ended.args.winnerCredits : ended.args.loserCredits
+    return reported && reported > BigInt(0) ? reported : undefined
+  }
+
+  return {
+    player1,
+    player2,
+    winner,
+    steps,
+    credits: { player1: creditsFor(player1), player2: creditsFor(player2) },
+  }
+}
+
+// Both boards as they stood after `stepIndex`
+export function boardsAt(replay: Replay, stepIndex: number): { player1: ReplayBoard; player2: ReplayBoard } {
+  const player1 = emptyBoard()
+  const player2 = emptyBoard()
+
+  replay.steps.slice(0, stepIndex + 1).forEach(step => {
+    step.cellChanges.forEach(change => {
+      if (change.x >= GRID_SIZE || change.y >= GRID_SIZE) return
+      if (isAddressEqual(change.player, replay.player1)) player1[change.y][change.x] = change.state
+      else if (isAddressEqual(change.player, replay.player2)) player2[change.y][change.x] = change.state
+    })
+  })
+
+  return { player1, player2 }
+}
+
+// JSON export; bigints become decimal strings
+export function replayToJson(replay: Replay, meta: { chainId: number; gameId: string }): string {
+  return JSON.stringify(
+    { version: 1, ...meta, ...replay },
+    (_, value) => (typeof value === 'bigint' ? value.toString() : value),
+    2
+  )
+}
\ No newline at end of file
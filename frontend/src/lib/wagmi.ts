@@ -1,15 +1,16 @@
-import { getDefaultConfig } from '@rainbow-me/rainbowkit'
-import { sonicBlaze } from './config'
-
-export const config = getDefaultConfig({
-  appName: 'CryptoBattleship',
-  projectId: process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || 'placeholder',
-  chains: [sonicBlaze],
-  ssr: true,
-})
-
-declare module 'wagmi' {
-  interface Register {
-    config: typeof config
-  }
+import { getDefaultConfig } from '@rainbow-me/rainbowkit'
+import { DEFAULT_CHAIN, SUPPORTED_CHAINS } from './config'
+
+export const config = getDefaultConfig({
+  appName: 'CryptoBattleship',
+  projectId: process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || 'placeholder',
+  // The first chain is the one wagmi reads from before a wallet connects
+  chains: [DEFAULT_CHAIN, ...SUPPORTED_CHAINS.filter(chain => chain.id !== DEFAULT_CHAIN.id)],
+  ssr: true,
+})
+
+declare module 'wagmi' {
+  interface Register {
+    config: typeof config
+  }
 }
\ No newline at end of file
@@ -1,25 +1,28 @@
-'use client'
-
-import { RainbowKitProvider } from '@rainbow-me/rainbowkit'
-import { WagmiProvider } from 'wagmi'
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
-import { config } from '@/lib/wagmi'
-import '@rainbow-me/rainbowkit/styles.css'
-
-const queryClient = new QueryClient()
-
-interface Web3ProviderProps {
-  children: React.ReactNode
-}
-
-export default function Web3Provider({ children }: Web3ProviderProps) {
-  return (
-    <WagmiProvider config={config}>
-      <QueryClientProvider client={queryClient}>
-        <RainbowKitProvider>
-          {children}
-        </RainbowKitProvider>
-      </QueryClientProvider>
-    </WagmiProvider>
-  )
+'use client'
+
+import { RainbowKitProvider } from '@rainbow-me/rainbowkit'
+import { WagmiProvider } from 'wagmi'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { config } from '@/lib/wagmi'
+import NetworkGuard from '@/components/NetworkGuard'
+import '@rainbow-me/rainbowkit/styles.css'
+
+const queryClient = new QueryClient()
+
+interface Web3ProviderProps {
+  children: React.ReactNode
+}
+
+export default function Web3Provider({ children }: Web3ProviderProps) {
+  return (
+    <WagmiProvider config={config}>
+      <QueryClientProvider client={queryClient}>
+        <RainbowKitProvider>
+          <NetworkGuard>
+            {children}
+          </NetworkGuard>
+        </RainbowKitProvider>
+      </QueryClientProvider>
+    </WagmiProvider>
+  )
 }
\ No newline at end of file
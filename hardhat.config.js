@@ -34,6 +34,11 @@ module.exports = {
       accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
       gasPrice: 20000000000, // 20 gwei (increased for Sonic network)
     },
+    sonic: {
+      url: "https://rpc.soniclabs.com",
+      chainId: 146,
+      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
+    },
   },
   etherscan: {
     // Etherscan V2 API - single API key for all networks
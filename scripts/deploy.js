@@ -1,10 +1,14 @@
-const { ethers } = require("hardhat");
+const { ethers, network } = require("hardhat");
+const path = require("path");
 require("dotenv").config();
 
+// Address books the frontend picks from by chain id (frontend/src/lib/config.ts)
+const FRONTEND_DEPLOYMENTS_DIR = path.join(__dirname, "..", "frontend", "src", "lib", "deployments");
+
 async function main() {
   const [deployer] = await ethers.getSigners();
   
-  console.log("🚀 Deploying CryptoBattleship to Sonic Blaze Testnet");
+  console.log(`🚀 Deploying CryptoBattleship to ${network.name} (chain ${network.config.chainId})`);
   console.log("Deploying with account:", deployer.address);
   console.log("Account balance:", (await deployer.provider.getBalance(deployer.address)).toString());
   
@@ -23,6 +27,8 @@ async function main() {
     const BattleshipToken = await ethers.getContractFactory("BattleshipToken");
     const battleshipToken = await BattleshipToken.deploy(INITIAL_ADMIN, TEAM_TREASURY);
     await battleshipToken.waitForDeployment();
+    // The frontend indexer starts reading logs here; every other contract is deployed after it
+    const deploymentBlock = (await battleshipToken.deploymentTransaction().wait()).blockNumber;
     const battleshipTokenAddress = await battleshipToken.getAddress();
     deploymentResults.BattleshipToken = battleshipTokenAddress;
     console.log("✅ BattleshipToken deployed to:", battleshipTokenAddress);
@@ -197,18 +203,28 @@ async function main() {
     // Save deployment results
     const fs = require('fs');
     const deploymentData = {
-      network: "sonicBlaze",
-      chainId: 57054,
+      network: network.name,
+      chainId: network.config.chainId,
       timestamp: new Date().toISOString(),
       deployer: deployer.address,
+      deploymentBlock,
       contracts: deploymentResults
     };
     
+    // sonicBlaze -> deployment-sonic-blaze.json
+    const deploymentFile = `deployment-${network.name.replace(/([A-Z])/g, "-$1").toLowerCase()}.json`;
     fs.writeFileSync(
-      'deployment-sonic-blaze.json',
+      deploymentFile,
       JSON.stringify(deploymentData, null, 2)
     );
-    console.log("\n💾 Deployment results saved to deployment-sonic-blaze.json");
+    console.log(`\n💾 Deployment results saved to ${deploymentFile}`);
+    
+    // The in-process hardhat network disappears with this script, so there is nothing to point the frontend at
+    if (network.name !== "hardhat") {
+      const frontendFile = path.join(FRONTEND_DEPLOYMENTS_DIR, `${network.name}.json`);
+      fs.writeFileSync(frontendFile, JSON.stringify(deploymentData, null, 2));
+      console.log(`💾 Frontend address book updated: ${path.relative(process.cwd(), frontendFile)}`);
+    }
     
     console.log("\n🔍 Next steps:");
     console.log("1. Verify contracts: npm run verify:sonic");
@@ -0,0 +1,49 @@
+const fs = require('fs');
+const path = require('path');
+
+// Contracts the frontend talks to. Keep in sync with CONTRACT_ADDRESSES in frontend/src/lib/config.ts
+const CONTRACTS = [
+  'BattleshipToken',
+  'ShipNFTManager',
+  'ActionNFTManager',
+  'CaptainNFTManager',
+  'CrewNFTManager',
+  'StakingPool',
+  'BattleshipGame',
+  'LootboxSystem',
+  'GameConfig',
+  'GameState',
+  'GameLogic',
+  'TokenomicsCore',
+];
+
+const ARTIFACTS_DIR = path.join(__dirname, '..', 'artifacts', 'contracts');
+const OUTPUT_FILE = path.join(__dirname, '..', 'frontend', 'src', 'lib', 'generated', 'abis.ts');
+
+function main() {
+  console.log("📦 Exporting contract ABIs to the frontend");
+
+  const sections = CONTRACTS.map((name) => {
+    const artifactPath = path.join(ARTIFACTS_DIR, `${name}.sol`, `${name}.json`);
+    if (!fs.existsSync(artifactPath)) {
+      console.error(`❌ Missing artifact for ${name}: ${artifactPath}`);
+      console.error("Please compile the contracts first: npm run compile");
+      process.exit(1);
+    }
+
+    const { abi } = JSON.parse(fs.readFileSync(artifactPath, 'utf8'));
+    console.log(`  ${name}: ${abi.length} entries`);
+    return `export const ${name}Abi = ${JSON.stringify(abi, null, 2)} as const`;
+  });
+
+  const header = [
+    '// Generated by scripts/export-abis.js from the Hardhat artifacts. Do not edit by hand.',
+    '// Regenerate with: npm run compile && npm run export:abis',
+  ].join('\n');
+
+  fs.mkdirSync(path.dirname(OUTPUT_FILE), { recursive: true });
+  fs.writeFileSync(OUTPUT_FILE, `${header}\n\n${sections.join('\n\n')}\n`);
+  console.log(`✅ Wrote ${path.relative(process.cwd(), OUTPUT_FILE)}`);
+}
+
+main();
\ No newline at end of file